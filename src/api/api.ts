@@ -1,41 +1,48 @@
-import { Hono } from 'hono';
+import { Context, Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { sendTelegramMessage } from '../receiver/telegram';
-import { processAgentMessage, processBrevoMessage, sendBrevoMessage } from '../receiver/brevo';
-import { getChatById, getChats, getFileToken, getFileUrl, getMediaRecord, pb, refreshAuthentication } from '../storage/pocketbase';
-import { Message, MessageSource } from '../models';
-import { serve } from 'bun';
+import { getChannel, getChannelForChat, getChannelForSource, getSocketChannel, isPublicPath } from '../receiver/channel';
+import { setRealtimeServer } from './realtime';
+import { findChatByPlatformId, findOrCreateChat, getChatById, getLastIncomingMessage, getChats, getChatsByContact, getContact, getContacts, saveContact, getMediaFile, getMediaInfo, getMediaUrl, getMessage, getMessages, getToolCalls, getDraft, getDrafts, isStorageConnected, MediaVariant, PageCursor, PageQuery, searchMessages, servesMediaFiles, storageName, storageQueueDepth, updateResponseMode, verifyMediaToken } from '../storage';
+import { sendOutbound } from '../receiver/outbound';
+import { approveDraft, discardDraft, DraftConflictError, editDraft } from '../receiver/drafts';
+import { Contact, DraftStatus, Message, MessageSource, MessageType, ResponseMode } from '../models';
+import { messageTypeForMime } from '../utils/mime';
+import { MediaTooLargeError, storeMedia } from '../media';
+import { pendingReplies } from '../responder/queue';
+import { searchTerms } from '../utils/snippet';
+import { eraseContact } from '../utils/erasure';
+import { mergeContacts } from '../utils/contacts';
+import { DraftStatsGrouping, getDraftStats } from '../utils/draftStats';
+import { buildChatTranscript, buildTranscripts, ExportFormat, ExportOptions, renderTranscripts } from '../utils/transcript';
+import { serve, ServerWebSocket } from 'bun';
 
 import dotenv from 'dotenv';
 
 
 dotenv.config();
 
-const app = new Hono();
+export const app = new Hono();
 const API_KEY = process.env.API_KEY;
 const PORT = parseInt(process.env.SERVER_PORT || '3000');
-const processedMessages = new Map<string, number>();
 const corsUrl = process.env.CORS_ORIGIN_REMOTE;
-const hookSecret = process.env.BREVO_WEBHOOK_SECRET;
+let httpServer: ReturnType<typeof serve> | undefined;
 
-// Очистка старых обработанных сообщений
-setInterval(() => {
-  const now = Date.now();
-  for (const [id, timestamp] of processedMessages.entries()) {
-    if (now - timestamp > 3600000) {
-      processedMessages.delete(id);
-    }
-  }
-}, 600000);
-
-app.use('*', cors({
+const apiCors = cors({
   origin: ['http://localhost:3000', corsUrl!],
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization', 'X-API-Key'],
   exposeHeaders: ['Content-Length'],
   maxAge: 86400,
   credentials: true,
-}));
+});
+
+// Публичные пути каналов (вебхуки, виджет) настраивают CORS сами
+app.use('*', async (c, next) => {
+  if (isPublicPath(c.req.path)) {
+    return next();
+  }
+  return apiCors(c, next);
+});
 
 async function authMiddleware(c: any, next: any) {
   const apiKey = c.req.header('X-API-Key');
@@ -48,7 +55,7 @@ async function authMiddleware(c: any, next: any) {
 }
 
 app.use('*', async (c, next) => {
-  if (c.req.path === '/health' || c.req.path === `/brevohook/${hookSecret!}` || c.req.path.startsWith('/api/files/')) {
+  if (c.req.path === '/health' || isPublicPath(c.req.path) || c.req.path.startsWith('/api/files/')) {
     return next();
   }
   return authMiddleware(c, next);
@@ -59,106 +66,135 @@ app.get('/health', (c) => {
     status: 'ok',
     timestamp: new Date().toISOString(),
     service: 'pocketbase-realtime',
-    database: pb && pb.authStore.isValid ? 'connected' : 'disconnected'
+    storage: storageName,
+    database: isStorageConnected() ? 'connected' : 'disconnected',
+    writeQueue: storageQueueDepth(),
+    replyQueue: pendingReplies()
   });
 });
 
-app.post(`/brevohook/${hookSecret!}`, async (c) => {
-  const body = await c.req.json();
-  console.log('Received webhook:', body);
-
-  const message = body.message || (body.messages && body.messages[0]);
-
-  if (!message) {
-    return c.text('No message found in webhook', 200);
-  }
-
-  if (processedMessages.has(message.id)) {
-    console.log(`Skipping duplicate message ID: ${message.id} (already processed)`);
-    return c.text('Duplicate message skipped', 200);
-  }
-
-  processedMessages.set(message.id, Date.now());
-
-  if ((body.message?.type === 'agent' || (body.messages && body.messages[0]?.type === 'agent'))) {
-    await processAgentMessage(body);
-  }
-
-  if (body.eventName === 'conversationFragment' && body.messages && body.messages.length > 0) {
-    const message = body.messages[0];
-    if (message.type === 'visitor') {
-      await processBrevoMessage(
-        body.visitor,
-        message,
-        body.visitor.source,
-        true
-      );
-    }
-  }
-
-  if (body.eventName === 'conversationStarted' && body.message) {
-    const message = body.message;
-    if (message.type === 'visitor') {
-      await processBrevoMessage(
-        body.visitor,
-        message,
-        body.visitor.source,
-        true
-      );
-    }
-  }
-
-  return c.text('Webhook received successfully', 200);
-});
-
 app.post('/api/messages', async (c) => {
   try {
-    const body = await c.req.json();
+    const isMultipart = (c.req.header('Content-Type') || '').includes('multipart/form-data');
+    const body: Record<string, any> = isMultipart ? await c.req.parseBody() : await c.req.json();
     console.log('Received message request:', body);
 
-    const { chatId, platformChatId, source, text, type, visitorId = 'text', senderName } = body;
+    const { chatId, platformChatId, source, channel, text, type, senderName, replyToMessageId } = body;
+    const upload = body.file instanceof File ? body.file : undefined;
+    let mediaFileId: string | undefined = body.mediaFileId || undefined;
+
+    if (!platformChatId || !source || !(text || upload || mediaFileId)) {
+      return c.json({
+        success: false,
+        message: 'Missing required fields: platformChatId, source and text, file or mediaFileId'
+      }, 400);
+    }
 
-    if (!platformChatId || !source || !text || !visitorId) {
+    // Существующему чату отвечает канал, через который он пришел; channel в запросе задает канал явно
+    const existing = chatId ? await getChatById(chatId) : await findChatByPlatformId(platformChatId);
+    if (chatId && !existing) {
       return c.json({
         success: false,
-        message: 'Missing required fields: platformChatId, source, visitorId or text'
+        message: `Chat with ID ${chatId} not found`
+      }, 404);
+    }
+    const adapter = channel
+      ? getChannel(channel)
+      : existing ? getChannelForChat(existing) : getChannel(source) ?? getChannelForSource(source as MessageSource);
+    if (!adapter) {
+      return c.json({
+        success: false,
+        message: `Unsupported source: ${source}`
       }, 400);
     }
 
+    let msgType: MessageType = type || 'text';
+
+    if (upload || mediaFileId) {
+      let mimeType: string;
+      if (upload) {
+        const stored = await storeMedia(upload, { fileName: upload.name || `api_${Date.now()}` }, source);
+        mediaFileId = stored.id;
+        mimeType = stored.mimeType;
+      } else {
+        const media = await getMediaInfo(mediaFileId!);
+        if (!media) {
+          return c.json({
+            success: false,
+            message: `Media record with ID ${mediaFileId} not found`
+          }, 404);
+        }
+        mimeType = media.mimeType;
+      }
+
+      msgType = (type && type !== 'text' ? type : messageTypeForMime(mimeType)) as MessageType;
+      if (!adapter.sendMedia || !adapter.capabilities.media.includes(msgType)) {
+        return c.json({
+          success: false,
+          message: `Channel ${adapter.name} does not support ${msgType} messages`
+        }, 400);
+      }
+    }
+
+    const chat = existing ?? await findOrCreateChat(platformChatId, source as MessageSource);
     const msg: Message = {
       source: source as MessageSource,
-      platformMessageId: `api_${Date.now()}`,
-      chatId: chatId,
-      type: type || 'text',
-      content: text,
+      chatId: chat?.id,
+      type: msgType,
+      content: text || '',
+      ...(mediaFileId && { mediaFileId }),
       isIncoming: false,
       timestamp: new Date(),
       senderId: 'api_client',
       senderName: senderName || 'API Client',
-      responseMode: 'manual'
+      responseMode: 'manual',
+      ...(replyToMessageId && { replyToMessageId })
     };
 
-    let externalResult;
-    if (source === 'telegram') {
-      await sendTelegramMessage(platformChatId, text);
-      externalResult = { platform: 'telegram' };
-    } else if (['instagram', 'whatsapp', 'brevo'].includes(source)) {
-      const msgId = await sendBrevoMessage(visitorId, text);
-      externalResult = { platform: source, messageId: msgId };
-    } else {
+    if (!msg.chatId) {
       return c.json({
         success: false,
-        message: `Unsupported source: ${source}`
+        message: `Chat for ${platformChatId} not found`
+      }, 404);
+    }
+
+    if (replyToMessageId) {
+      const quoted = await getMessage(replyToMessageId);
+      if (!quoted || quoted.chatId !== msg.chatId) {
+        return c.json({
+          success: false,
+          message: `Message ${replyToMessageId} not found in chat ${msg.chatId}`
+        }, 404);
+      }
+    }
+
+    // Brevo отправляет посетителю, а не в тред: это отправитель входящих сообщений чата, если visitorId не передан
+    const visitorId = body.visitorId || (await getLastIncomingMessage(msg.chatId))?.senderId;
+    if (adapter.name === 'brevo' && !visitorId) {
+      return c.json({
+        success: false,
+        message: `visitorId is required: chat ${msg.chatId} has no incoming messages`
       }, 400);
     }
 
+    const sent = await sendOutbound(adapter, { platformChatId, ...(visitorId && { visitorId }) }, msg);
+
     return c.json({
-      success: true,
-      message: `Message sent via ${source}`,
-      external: externalResult
-    });
+      success: sent.status !== 'failed',
+      message: sent.status === 'sent' ? `Message sent via ${source}` : `Message ${sent.status}: ${sent.error}`,
+      messageId: sent.id,
+      status: sent.status,
+      external: { platform: adapter.name, messageId: sent.platformMessageId },
+      ...(mediaFileId && { mediaFileId })
+    }, sent.status === 'failed' ? 502 : 200);
 
   } catch (error: any) {
+    if (error instanceof MediaTooLargeError) {
+      return c.json({
+        success: false,
+        message: error.message
+      }, 413);
+    }
     console.error('Error processing message:', error);
     return c.json({
       success: false,
@@ -167,40 +203,71 @@ app.post('/api/messages', async (c) => {
   }
 });
 
+// Дата из query-параметра; undefined — параметр не задан, null — задан с ошибкой
+function parseDateParam(value: string | undefined): Date | undefined | null {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Курсор из query-параметра: ISO-дата или ID записи, от которой продолжить список
+async function parseCursor(
+  value: string | undefined,
+  resolveId: (id: string) => Promise<PageCursor | null>
+): Promise<PageCursor | undefined | null> {
+  if (!value) return undefined;
+  if (/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = parseDateParam(value);
+    return date ? { date } : null;
+  }
+  return resolveId(value);
+}
+
+// Параметры limit, before, after и updatedSince; null — какой-то из них задан с ошибкой
+async function parsePageQuery(
+  c: Context,
+  defaultLimit: number,
+  resolveId: (id: string) => Promise<PageCursor | null>
+): Promise<PageQuery | null> {
+  const before = await parseCursor(c.req.query('before'), resolveId);
+  const after = await parseCursor(c.req.query('after'), resolveId);
+  const updatedSince = parseDateParam(c.req.query('updatedSince'));
+  if (before === null || after === null || updatedSince === null) {
+    return null;
+  }
+
+  return {
+    limit: Number(c.req.query('limit')) || defaultLimit,
+    before,
+    after,
+    updatedSince
+  };
+}
+
 app.get('/api/chats', async (c) => {
   try {
-    const limit = Number(c.req.query('limit')) || 50;
     const source = c.req.query('source');
-    let chats = await getChats(source!, limit);
+    const query = await parsePageQuery(c, 50, async (id) => {
+      const chat = await getChatById(id);
+      return chat ? { date: chat.updated, id } : null;
+    });
+    if (!query) {
+      return c.json({
+        success: false,
+        message: 'Invalid before, after or updatedSince'
+      }, 400);
+    }
+
+    const chats = await getChats(source, query);
 
     return c.json({
       success: true,
       total: chats.totalItems,
+      hasMore: chats.totalItems > chats.items.length,
       chats: chats.items
     });
   } catch (error: any) {
     console.error('Error fetching chats:', error);
-    if (error.status === 403) {
-      await refreshAuthentication();
-      try {
-        const limit = Number(c.req.query('limit')) || 50;
-        const source = c.req.query('source');
-        let chats = await getChats(source!, limit);
-
-        return c.json({
-          success: true,
-          total: chats.totalItems,
-          chats: chats.items
-        });
-      } catch (retryError) {
-        console.error('Error after re-authentication:', retryError);
-        return c.json({
-          success: false,
-          message: 'Failed to fetch chats after re-authentication'
-        }, 500);
-      }
-    }
-
     return c.json({
       success: false,
       message: error?.message || 'Failed to fetch chats'
@@ -211,7 +278,6 @@ app.get('/api/chats', async (c) => {
 app.get('/api/chats/:chatId/messages', async (c) => {
   try {
     const chatId = c.req.param('chatId');
-    const limit = Number(c.req.query('limit')) || 100;
 
     const chat = await getChatById(chatId);
     if (!chat) {
@@ -221,35 +287,26 @@ app.get('/api/chats/:chatId/messages', async (c) => {
       }, 404);
     }
 
-    try {
-      const messages = await pb.collection('messages').getList(1, limit, {
-        filter: `chatId="${chatId}"`,
-        sort: 'timestamp'
-      });
-
-      return c.json({
-        success: true,
-        chatId,
-        total: messages.totalItems,
-        messages: messages.items
-      });
-    } catch (messagesError: any) {
-      if (messagesError.status === 403) {
-        await refreshAuthentication();
-        const messages = await pb.collection('messages').getList(1, limit, {
-          filter: `chatId="${chatId}"`,
-          sort: 'timestamp'
-        });
-
-        return c.json({
-          success: true,
-          chatId,
-          total: messages.totalItems,
-          messages: messages.items
-        });
-      }
-      throw messagesError;
+    const query = await parsePageQuery(c, 100, async (id) => {
+      const message = await getMessage(id);
+      return message?.chatId === chatId ? { date: message.timestamp, id } : null;
+    });
+    if (!query) {
+      return c.json({
+        success: false,
+        message: 'Invalid before, after or updatedSince'
+      }, 400);
     }
+
+    const messages = await getMessages(chatId, query);
+
+    return c.json({
+      success: true,
+      chatId,
+      total: messages.totalItems,
+      hasMore: messages.totalItems > messages.items.length,
+      messages: messages.items
+    });
   } catch (error: any) {
     console.error('Error fetching messages:', error);
     return c.json({
@@ -259,17 +316,10 @@ app.get('/api/chats/:chatId/messages', async (c) => {
   }
 });
 
-app.patch('/api/chats/:chatId/autoMode', async (c) => {
+// Журнал вызовов инструментов автоответчиком; курсоры before и after — только даты
+app.get('/api/chats/:chatId/tool-calls', async (c) => {
   try {
     const chatId = c.req.param('chatId');
-    const body = await c.req.json();
-
-    if (body.autoMode === undefined) {
-      return c.json({
-        success: false,
-        message: 'Missing required field: autoMode'
-      }, 400);
-    }
 
     const chat = await getChatById(chatId);
     if (!chat) {
@@ -279,149 +329,785 @@ app.patch('/api/chats/:chatId/autoMode', async (c) => {
       }, 404);
     }
 
-    try {
-      await pb.collection('chats').update(chatId, {
-        autoMode: body.autoMode
-      });
-    } catch (updateError: any) {
-      if (updateError.status === 403) {
-        await refreshAuthentication();
-        await pb.collection('chats').update(chatId, {
-          autoMode: body.autoMode
-        });
-      } else {
-        throw updateError;
-      }
+    const query = await parsePageQuery(c, 100, async () => null);
+    if (!query) {
+      return c.json({
+        success: false,
+        message: 'Invalid before, after or updatedSince'
+      }, 400);
     }
 
+    const toolCalls = await getToolCalls(chatId, query);
+
     return c.json({
       success: true,
       chatId,
-      autoMode: body.autoMode
+      total: toolCalls.totalItems,
+      hasMore: toolCalls.totalItems > toolCalls.items.length,
+      toolCalls: toolCalls.items
     });
   } catch (error: any) {
-    console.error('Error updating chat auto mode:', error);
+    console.error('Error fetching tool calls:', error);
     return c.json({
       success: false,
-      message: error?.message || 'Failed to update chat auto mode'
+      message: error?.message || 'Failed to fetch tool calls'
     }, error?.status || 500);
   }
 });
 
-app.get('/api/media/:mediaFileId/url', async (c) => {
+app.get('/api/search', async (c) => {
   try {
-    const mediaFileId = c.req.param('mediaFileId');
+    const terms = searchTerms(c.req.query('q') || '');
+    if (!terms.length) {
+      return c.json({
+        success: false,
+        message: 'Query parameter q is required'
+      }, 400);
+    }
 
+    const from = parseDateParam(c.req.query('from'));
+    const to = parseDateParam(c.req.query('to'));
+    if (from === null || to === null) {
+      return c.json({
+        success: false,
+        message: 'Invalid date in from/to'
+      }, 400);
+    }
 
-    if (!mediaFileId) {
+    const direction = c.req.query('direction');
+    if (direction && direction !== 'incoming' && direction !== 'outgoing') {
       return c.json({
         success: false,
-        message: 'Missing required parameter: mediaFileId'
+        message: 'direction must be incoming or outgoing'
       }, 400);
     }
 
-    try {
-      const fileToken = await getFileToken();
-      const mediaRecord = await getMediaRecord(mediaFileId);
+    const limit = Math.min(Number(c.req.query('limit')) || 20, 100);
+    const page = Math.max(Number(c.req.query('page')) || 1, 1);
+    const results = await searchMessages({
+      terms,
+      source: c.req.query('source') as MessageSource | undefined,
+      chatId: c.req.query('chatId'),
+      from,
+      to,
+      isIncoming: direction ? direction === 'incoming' : undefined,
+      responseMode: c.req.query('responseMode') as ResponseMode | undefined,
+      page,
+      limit
+    });
 
-      if (!mediaRecord) {
-        return c.json({
-          success: false,
-          message: `Media record with ID ${mediaFileId} not found`
-        }, 404);
-      }
+    return c.json({
+      success: true,
+      total: results.totalItems,
+      page,
+      hits: results.items
+    });
+  } catch (error: any) {
+    console.error('Error searching messages:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to search messages'
+    }, error?.status || 500);
+  }
+});
 
-      const url = await getFileUrl(mediaRecord, mediaRecord.file, { 'token': fileToken });
-      const urlObj = new URL(url);
-      const relativePath = urlObj.pathname + urlObj.search;
+const EXPORT_FORMATS: ExportFormat[] = ['json', 'csv', 'html'];
 
-      return c.json({
-        success: true,
-        url: relativePath
-      });
-    } catch (mediaError: any) {
-      if (mediaError.status === 403) {
-        await refreshAuthentication();
-        const fileToken = await getFileToken();
-        const mediaRecord = await getMediaRecord(mediaFileId);
+// Формат и период выгрузки; строка — текст ошибки для ответа 400
+function parseExportParams(c: Context): { format: ExportFormat; options: ExportOptions } | string {
+  const format = (c.req.query('format') || 'json') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return `format must be one of ${EXPORT_FORMATS.join(', ')}`;
+  }
 
-        if (!mediaRecord) {
-          return c.json({
-            success: false,
-            message: `Media record with ID ${mediaFileId} not found`
-          }, 404);
-        }
+  const from = parseDateParam(c.req.query('from'));
+  const to = parseDateParam(c.req.query('to'));
+  if (from === null || to === null) {
+    return 'Invalid date in from/to';
+  }
 
-        const url = await getFileUrl(mediaRecord, mediaRecord.file, { 'token': fileToken });
-        const urlObj = new URL(url);
-        const relativePath = urlObj.pathname + urlObj.search;
+  // Встраивать файлы имеет смысл только в HTML, в JSON и CSV остаются ссылки
+  const media = format === 'html' && c.req.query('media') === 'embed' ? 'embed' : 'link';
+  return { format, options: { from, to, media } };
+}
 
-        return c.json({
-          success: true,
-          url: relativePath
-        });
-      }
-      throw mediaError;
+function exportResponse(c: Context, body: string, contentType: string, fileName: string) {
+  return c.body(body, 200, {
+    'Content-Type': contentType,
+    'Content-Disposition': `attachment; filename="${fileName}"`
+  });
+}
+
+app.get('/api/chats/:chatId/export', async (c) => {
+  try {
+    const chatId = c.req.param('chatId');
+    const params = parseExportParams(c);
+    if (typeof params === 'string') {
+      return c.json({ success: false, message: params }, 400);
+    }
+
+    const chat = await getChatById(chatId);
+    if (!chat) {
+      return c.json({
+        success: false,
+        message: `Chat with ID ${chatId} not found`
+      }, 404);
     }
+
+    const transcript = await buildChatTranscript(chat, params.options);
+    const rendered = renderTranscripts([transcript], params.format, params.options);
+    return exportResponse(c, rendered.body, rendered.contentType, `chat-${chatId}.${rendered.extension}`);
   } catch (error: any) {
-    console.error('Error getting media URL:', error);
+    console.error('Error exporting chat:', error);
     return c.json({
       success: false,
-      message: error?.message || 'Failed to get media URL'
+      message: error?.message || 'Failed to export chat'
     }, error?.status || 500);
   }
 });
 
-app.get('/pb-hook/:chatId', async (c) => {
-  try{
-    const id = c.req.param('chatId');
-    httpServer.publish("event", id);
+app.get('/api/export', async (c) => {
+  try {
+    const params = parseExportParams(c);
+    if (typeof params === 'string') {
+      return c.json({ success: false, message: params }, 400);
+    }
+
+    const { from, to } = params.options;
+    if (!from || !to) {
+      return c.json({
+        success: false,
+        message: 'Query parameters from and to are required'
+      }, 400);
+    }
+
+    const transcripts = await buildTranscripts(c.req.query('source'), params.options);
+    const rendered = renderTranscripts(transcripts, params.format, params.options);
+    const period = `${from.toISOString().slice(0, 10)}_${to.toISOString().slice(0, 10)}`;
+    return exportResponse(c, rendered.body, rendered.contentType, `export-${period}.${rendered.extension}`);
+  } catch (error: any) {
+    console.error('Error exporting chats:', error);
     return c.json({
-          success: true
-        });
+      success: false,
+      message: error?.message || 'Failed to export chats'
+    }, error?.status || 500);
   }
-  catch(e){
+});
+
+app.patch('/api/chats/:chatId/autoMode', async (c) => {
+  try {
+    const chatId = c.req.param('chatId');
+    const body = await c.req.json();
+
+    if (body.autoMode === undefined) {
+      return c.json({
+        success: false,
+        message: 'Missing required field: autoMode'
+      }, 400);
+    }
+
+    const chat = await getChatById(chatId);
+    if (!chat) {
+      return c.json({
+        success: false,
+        message: `Chat with ID ${chatId} not found`
+      }, 404);
+    }
+
+    const responseMode: ResponseMode = body.autoMode ? 'auto' : 'manual';
+    await updateResponseMode(chatId, responseMode);
+
+    return c.json({
+      success: true,
+      chatId,
+      autoMode: Boolean(body.autoMode),
+      responseMode
+    });
+  } catch (error: any) {
+    console.error('Error updating chat auto mode:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to update chat auto mode'
+    }, error?.status || 500);
   }
 });
 
-const httpServer = serve({
-  port: PORT,
-  fetch: (req, server) => {
-    const url = new URL(req.url);
-    if (url.pathname === '/api/ws') {
-      const apiKey = url.searchParams.get('apiKey');
-      if (apiKey !== API_KEY) {
-        return new Response('Unauthorized: Invalid API key', { status: 401 });
-      }
+const RESPONSE_MODES: ResponseMode[] = ['manual', 'auto', 'suggest'];
 
-      const chatId = url.searchParams.get('chatId');
-      const source = url.searchParams.get('source');
+app.patch('/api/chats/:chatId/responseMode', async (c) => {
+  try {
+    const chatId = c.req.param('chatId');
+    const body = await c.req.json();
 
-      const success = server.upgrade(req, {
-        data: { chatId, source }
-      });
+    if (!RESPONSE_MODES.includes(body.responseMode)) {
+      return c.json({
+        success: false,
+        message: `responseMode must be one of ${RESPONSE_MODES.join(', ')}`
+      }, 400);
+    }
 
-      return success
-        ? undefined
-        : new Response('WebSocket upgrade failed', { status: 500 });
+    const chat = await getChatById(chatId);
+    if (!chat) {
+      return c.json({
+        success: false,
+        message: `Chat with ID ${chatId} not found`
+      }, 404);
     }
 
-    return app.fetch(req);
-  },
-  websocket: {
-     open(ws) {
-      ws.subscribe("event");
-    },
-    message(ws, message) {
-    },
-    close(ws) {
-      ws.unsubscribe("event");
-    },
+    await updateResponseMode(chatId, body.responseMode);
+
+    return c.json({
+      success: true,
+      chatId,
+      responseMode: body.responseMode
+    });
+  } catch (error: any) {
+    console.error('Error updating chat response mode:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to update chat response mode'
+    }, error?.status || 500);
   }
 });
 
-export async function startRealtimeHttpServer() {
+const DRAFT_STATUSES: DraftStatus[] = ['pending', 'approved', 'discarded', 'superseded'];
+
+app.get('/api/chats/:chatId/drafts', async (c) => {
   try {
+    const chatId = c.req.param('chatId');
+
+    const chat = await getChatById(chatId);
+    if (!chat) {
+      return c.json({
+        success: false,
+        message: `Chat with ID ${chatId} not found`
+      }, 404);
+    }
+
+    const status = c.req.query('status') as DraftStatus | undefined;
+    if (status && !DRAFT_STATUSES.includes(status)) {
+      return c.json({
+        success: false,
+        message: `status must be one of ${DRAFT_STATUSES.join(', ')}`
+      }, 400);
+    }
+
+    const query = await parsePageQuery(c, 50, async (id) => {
+      const draft = await getDraft(id);
+      return draft?.chatId === chatId ? { date: draft.timestamp, id } : null;
+    });
+    if (!query) {
+      return c.json({
+        success: false,
+        message: 'Invalid before, after or updatedSince'
+      }, 400);
+    }
+
+    const drafts = await getDrafts({ chatId, status }, query);
+
+    return c.json({
+      success: true,
+      chatId,
+      total: drafts.totalItems,
+      hasMore: drafts.totalItems > drafts.items.length,
+      drafts: drafts.items
+    });
+  } catch (error: any) {
+    console.error('Error fetching drafts:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to fetch drafts'
+    }, error?.status || 500);
+  }
+});
+
+// Принятие черновиков операторами: по чату, каналу или за период, с разбивкой по чатам или каналам
+app.get('/api/drafts/stats', async (c) => {
+  try {
+    const from = parseDateParam(c.req.query('from'));
+    const to = parseDateParam(c.req.query('to'));
+    if (from === null || to === null) {
+      return c.json({
+        success: false,
+        message: 'Invalid date in from/to'
+      }, 400);
+    }
+
+    const groupBy = c.req.query('groupBy') as DraftStatsGrouping | undefined;
+    if (groupBy && groupBy !== 'chat' && groupBy !== 'source') {
+      return c.json({
+        success: false,
+        message: 'groupBy must be chat or source'
+      }, 400);
+    }
+
+    const result = await getDraftStats({
+      chatId: c.req.query('chatId'),
+      source: c.req.query('source') as MessageSource | undefined,
+      from,
+      to,
+      groupBy
+    });
+
+    return c.json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    console.error('Error calculating draft stats:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to calculate draft stats'
+    }, error?.status || 500);
+  }
+});
+
+app.patch('/api/drafts/:draftId', async (c) => {
+  try {
+    const draftId = c.req.param('draftId');
+    const body = await c.req.json();
+    if (typeof body.content !== 'string' || !body.content.trim()) {
+      return c.json({
+        success: false,
+        message: 'Missing required field: content'
+      }, 400);
+    }
+
+    const draft = await getDraft(draftId);
+    if (!draft) {
+      return c.json({
+        success: false,
+        message: `Draft with ID ${draftId} not found`
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      draft: await editDraft(draft, body.content)
+    });
+  } catch (error: any) {
+    if (error instanceof DraftConflictError) {
+      return c.json({ success: false, message: error.message }, 409);
+    }
+    console.error('Error updating draft:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to update draft'
+    }, error?.status || 500);
+  }
+});
+
+// content в теле заменяет текст черновика перед отправкой; без него отправляется текущий текст
+app.post('/api/drafts/:draftId/approve', async (c) => {
+  try {
+    const draftId = c.req.param('draftId');
+    const body: Record<string, any> = await c.req.json().catch(() => ({}));
+    if (body.content !== undefined && (typeof body.content !== 'string' || !body.content.trim())) {
+      return c.json({
+        success: false,
+        message: 'content must be a non-empty string'
+      }, 400);
+    }
+
+    const draft = await getDraft(draftId);
+    if (!draft) {
+      return c.json({
+        success: false,
+        message: `Draft with ID ${draftId} not found`
+      }, 404);
+    }
+
+    // Ответ уходит через канал, принявший сообщение клиента, а не первый канал для draft.source
+    const chat = await getChatById(draft.chatId);
+    const adapter = draft.channel ? getChannel(draft.channel) : chat ? getChannelForChat(chat) : undefined;
+    if (!chat || !adapter) {
+      return c.json({
+        success: false,
+        message: `Chat ${draft.chatId} is not available via ${draft.channel || chat?.channel || draft.source}`
+      }, 400);
+    }
+
+    const { draft: approved, message } = await approveDraft(adapter, draft, chat, body.content, body.senderName);
+
+    return c.json({
+      success: message.status !== 'failed',
+      draft: approved,
+      messageId: message.id,
+      status: message.status,
+      ...(message.error && { message: message.error })
+    }, message.status === 'failed' ? 502 : 200);
+  } catch (error: any) {
+    if (error instanceof DraftConflictError) {
+      return c.json({ success: false, message: error.message }, 409);
+    }
+    console.error('Error approving draft:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to approve draft'
+    }, error?.status || 500);
+  }
+});
+
+app.post('/api/drafts/:draftId/discard', async (c) => {
+  try {
+    const draftId = c.req.param('draftId');
+    const draft = await getDraft(draftId);
+    if (!draft) {
+      return c.json({
+        success: false,
+        message: `Draft with ID ${draftId} not found`
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      draft: await discardDraft(draft)
+    });
+  } catch (error: any) {
+    if (error instanceof DraftConflictError) {
+      return c.json({ success: false, message: error.message }, 409);
+    }
+    console.error('Error discarding draft:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to discard draft'
+    }, error?.status || 500);
+  }
+});
+
+app.get('/api/contacts', async (c) => {
+  try {
+    const query = await parsePageQuery(c, 50, async (id) => {
+      const contact = await getContact(id);
+      return contact?.updated ? { date: contact.updated, id } : null;
+    });
+    if (!query) {
+      return c.json({
+        success: false,
+        message: 'Invalid before, after or updatedSince'
+      }, 400);
+    }
+
+    const contacts = await getContacts(query);
+
+    return c.json({
+      success: true,
+      total: contacts.totalItems,
+      hasMore: contacts.totalItems > contacts.items.length,
+      contacts: contacts.items
+    });
+  } catch (error: any) {
+    console.error('Error fetching contacts:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to fetch contacts'
+    }, error?.status || 500);
+  }
+});
+
+app.get('/api/contacts/:contactId', async (c) => {
+  try {
+    const contactId = c.req.param('contactId');
+    const contact = await getContact(contactId);
+    if (!contact) {
+      return c.json({
+        success: false,
+        message: `Contact with ID ${contactId} not found`
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      contact,
+      chats: await getChatsByContact(contactId)
+    });
+  } catch (error: any) {
+    console.error('Error fetching contact:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to fetch contact'
+    }, error?.status || 500);
+  }
+});
+
+const CONTACT_TEXT_FIELDS = ['name', 'phone', 'email', 'username', 'notes'] as const;
+
+// Изменения карточки контакта из тела запроса; строка — текст ошибки для ответа 400
+function parseContactChanges(body: any): Partial<Contact> | string {
+  const changes: Partial<Contact> = {};
+
+  for (const field of CONTACT_TEXT_FIELDS) {
+    if (body[field] === undefined) continue;
+    if (body[field] !== null && typeof body[field] !== 'string') {
+      return `${field} must be a string`;
+    }
+    changes[field] = body[field] ?? '';
+  }
+
+  if (body.attributes !== undefined) {
+    const attributes = body.attributes ?? {};
+    const valid = typeof attributes === 'object' && !Array.isArray(attributes) &&
+      Object.values(attributes).every(value => ['string', 'number', 'boolean'].includes(typeof value));
+    if (!valid) {
+      return 'attributes must be an object with string, number or boolean values';
+    }
+    changes.attributes = attributes;
+  }
+
+  return changes;
+}
+
+app.patch('/api/contacts/:contactId', async (c) => {
+  try {
+    const contactId = c.req.param('contactId');
+    const changes = parseContactChanges(await c.req.json());
+    if (typeof changes === 'string') {
+      return c.json({ success: false, message: changes }, 400);
+    }
+
+    const contact = await getContact(contactId);
+    if (!contact) {
+      return c.json({
+        success: false,
+        message: `Contact with ID ${contactId} not found`
+      }, 404);
+    }
+
+    return c.json({
+      success: true,
+      contact: await saveContact({ ...contact, ...changes })
+    });
+  } catch (error: any) {
+    console.error('Error updating contact:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to update contact'
+    }, error?.status || 500);
+  }
+});
+
+// Контакт из тела запроса сливается в контакт из пути и удаляется
+app.post('/api/contacts/:contactId/merge', async (c) => {
+  try {
+    const contactId = c.req.param('contactId');
+    const body = await c.req.json();
+
+    if (!body.contactId) {
+      return c.json({
+        success: false,
+        message: 'Missing required field: contactId'
+      }, 400);
+    }
+    if (body.contactId === contactId) {
+      return c.json({
+        success: false,
+        message: 'Cannot merge a contact into itself'
+      }, 400);
+    }
+
+    const [target, source] = await Promise.all([getContact(contactId), getContact(body.contactId)]);
+    if (!target || !source) {
+      return c.json({
+        success: false,
+        message: `Contact with ID ${target ? body.contactId : contactId} not found`
+      }, 404);
+    }
+
+    const result = await mergeContacts(target, source);
+
+    return c.json({
+      success: true,
+      ...result
+    });
+  } catch (error: any) {
+    console.error('Error merging contacts:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to merge contacts'
+    }, error?.status || 500);
+  }
+});
+
+// Удаление всех данных контакта по запросу; userId — ID пользователя на платформе (senderId входящих сообщений)
+app.post('/api/erasure', async (c) => {
+  try {
+    const body = await c.req.json();
+
+    if (!body.source || !body.userId) {
+      return c.json({
+        success: false,
+        message: 'Missing required fields: source, userId'
+      }, 400);
+    }
+
+    const report = await eraseContact(body.source as MessageSource, String(body.userId));
+    console.log(`Erased data of ${body.source} user ${body.userId}: ${report.messages} messages, ${report.media} media`);
+
+    return c.json({
+      success: true,
+      report
+    });
+  } catch (error: any) {
+    console.error('Error erasing contact data:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to erase contact data'
+    }, error?.status || 500);
+  }
+});
+
+// ?variant=thumbnail — превью; если его нет (аудио, документы), возвращается оригинал
+app.get('/api/media/:mediaFileId/url', async (c) => {
+  try {
+    const mediaFileId = c.req.param('mediaFileId');
+    const requested = c.req.query('variant') || 'original';
+
+    if (!mediaFileId) {
+      return c.json({
+        success: false,
+        message: 'Missing required parameter: mediaFileId'
+      }, 400);
+    }
+    if (requested !== 'original' && requested !== 'thumbnail') {
+      return c.json({
+        success: false,
+        message: 'Invalid variant: expected original or thumbnail'
+      }, 400);
+    }
+
+    const media = await getMediaInfo(mediaFileId);
+    if (!media) {
+      return c.json({
+        success: false,
+        message: `Media record with ID ${mediaFileId} not found`
+      }, 404);
+    }
+
+    const variant: MediaVariant = requested === 'thumbnail' && media.hasThumbnail ? 'thumbnail' : 'original';
+    const url = await getMediaUrl(mediaFileId, variant);
+    if (!url) {
+      return c.json({
+        success: false,
+        message: `Media record with ID ${mediaFileId} not found`
+      }, 404);
+    }
+
+    const urlObj = new URL(url);
+    const relativePath = urlObj.pathname + urlObj.search;
+
+    return c.json({
+      success: true,
+      url: relativePath,
+      variant,
+      media
+    });
+  } catch (error: any) {
+    console.error('Error getting media URL:', error);
+    return c.json({
+      success: false,
+      message: error?.message || 'Failed to get media URL'
+    }, error?.status || 500);
+  }
+});
+
+// Файлы SQLite-хранилища; при PocketBase путь /api/files/ проксируется на сам PocketBase
+app.get('/api/files/media/:mediaFileId/:fileName', (c) => serveMediaFile(c, 'original'));
+app.get('/api/files/media/:mediaFileId/thumbnail/:fileName', (c) => serveMediaFile(c, 'thumbnail'));
+
+async function serveMediaFile(c: Context, variant: MediaVariant) {
+  const mediaFileId = c.req.param('mediaFileId');
+  if (!servesMediaFiles() || !verifyMediaToken(mediaFileId, c.req.query('token') || '')) {
+    return c.json({ success: false, message: 'File not found' }, 404);
+  }
+
+  const media = await getMediaFile(mediaFileId, variant).catch(error => {
+    console.error(`Failed to read media ${mediaFileId}:`, error);
+    return null;
+  });
+  if (!media) {
+    return c.json({ success: false, message: 'File not found' }, 404);
+  }
+
+  c.header('Content-Type', media.mimeType);
+  c.header('Content-Disposition', `inline; filename="${encodeURIComponent(media.fileName)}"`);
+  return c.body(await media.file.arrayBuffer());
+}
+
+app.get('/pb-hook/:chatId', async (c) => {
+  try{
+    const id = c.req.param('chatId');
+    httpServer?.publish("event", id);
+    return c.json({
+          success: true
+        });
+  }
+  catch(e){
+  }
+});
+
+export async function startRealtimeHttpServer() {
+  try {
+    httpServer = serve({
+      port: PORT,
+      fetch: (req, server) => {
+        const url = new URL(req.url);
+        if (url.pathname === '/api/ws') {
+          const apiKey = url.searchParams.get('apiKey');
+          if (apiKey !== API_KEY) {
+            return new Response('Unauthorized: Invalid API key', { status: 401 });
+          }
+
+          const chatId = url.searchParams.get('chatId');
+          const source = url.searchParams.get('source');
+
+          const success = server.upgrade(req, {
+            data: { chatId, source }
+          });
+
+          return success
+            ? undefined
+            : new Response('WebSocket upgrade failed', { status: 500 });
+        }
+
+        const socketChannel = getSocketChannel(url.pathname);
+        if (socketChannel) {
+          const data = socketChannel.socket!.accept(req);
+          if (!data) {
+            return new Response('Unauthorized', { status: 401 });
+          }
+
+          const success = server.upgrade(req, {
+            data: { ...data, channel: socketChannel.name }
+          });
+
+          return success
+            ? undefined
+            : new Response('WebSocket upgrade failed', { status: 500 });
+        }
+
+        return app.fetch(req, server);
+      },
+      websocket: {
+        open(ws: ServerWebSocket<any>) {
+          if (ws.data?.channel) {
+            return getChannel(ws.data.channel)?.socket?.open?.(ws);
+          }
+          ws.subscribe("event");
+        },
+        message(ws: ServerWebSocket<any>, message) {
+          if (ws.data?.channel) {
+            return getChannel(ws.data.channel)?.socket?.message?.(ws, message);
+          }
+        },
+        close(ws: ServerWebSocket<any>) {
+          if (ws.data?.channel) {
+            return getChannel(ws.data.channel)?.socket?.close?.(ws);
+          }
+          ws.unsubscribe("event");
+        },
+      }
+    });
+    setRealtimeServer(httpServer);
     console.log(`Realtime HTTP server started on port: ${httpServer.port}`);
     return httpServer;
   } catch (error) {
@@ -431,6 +1117,7 @@ export async function startRealtimeHttpServer() {
 }
 
 export async function stopRealtimeHttpServer() {
+  if (!httpServer) return;
   await httpServer.stop();
   console.log(`Realtime HTTP server stopped on port: ${httpServer.port}`);
 }
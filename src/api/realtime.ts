@@ -0,0 +1,15 @@
+// Публикация событий в WebSocket-подписки общего Bun-сервера
+interface RealtimeServer {
+  publish(topic: string, data: string): unknown;
+}
+
+let server: RealtimeServer | undefined;
+
+export function setRealtimeServer(realtimeServer: RealtimeServer | undefined) {
+  server = realtimeServer;
+}
+
+export function publish(topic: string, payload: string | object) {
+  if (!server) return;
+  server.publish(topic, typeof payload === 'string' ? payload : JSON.stringify(payload));
+}
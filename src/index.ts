@@ -1,22 +1,50 @@
-import { startTGBot, stopTGBot } from './receiver/telegram';
-import { authenticate } from './storage/pocketbase';
+import { telegramChannel } from './receiver/telegram';
+import { whatsappChannel } from './receiver/whatsapp';
+import { instagramChannel } from './receiver/instagram';
+import { brevoChannel } from './receiver/brevo';
+import { widgetChannel } from './receiver/widget';
+import { notifyListening, registerChannel, startChannels, stopChannels } from './receiver/channel';
+import { startOutboundRecovery, stopOutboundRecovery } from './receiver/outbound';
+import { registerTool } from './tools';
+import { requestHandoffTool } from './tools/handoff';
+import { createLeadTool } from './tools/leads';
+import { initStorage } from './storage';
+import { SchemaMismatchError } from './storage/schema';
+import { startRetention, stopRetention } from './utils/retention';
 import dotenv from 'dotenv';
-import { startRealtimeHttpServer, stopRealtimeHttpServer } from "./api/api";
+import { app, startRealtimeHttpServer, stopRealtimeHttpServer } from "./api/api";
 dotenv.config();
 
+registerChannel(telegramChannel);
+registerChannel(whatsappChannel);
+registerChannel(instagramChannel);
+registerChannel(widgetChannel);
+registerChannel(brevoChannel);
+
+registerTool(createLeadTool);
+registerTool(requestHandoffTool);
+
 async function initServices() {
   try {
-    await authenticate(process.env.POCKETBASE_EMAIL!, process.env.POCKETBASE_PASSWORD!);
-    await startTGBot();
+    await initStorage();
+    startRetention();
+    await startChannels(app);
     await startRealtimeHttpServer();
+    await notifyListening();
+    startOutboundRecovery();
 
   } catch (error) {
     console.error('Error during initialization:', error);
+    if (error instanceof SchemaMismatchError) {
+      process.exit(1);
+    }
   }
 
   process.on('SIGINT', async () => {
     console.log('Shutting down...');
-    await stopTGBot();
+    stopRetention();
+    stopOutboundRecovery();
+    await stopChannels();
     await stopRealtimeHttpServer()
     process.exit(0);
   });
@@ -24,4 +52,4 @@ async function initServices() {
 
 initServices().catch(error => {
   console.error('Error initializing services:', error);
-});
\ No newline at end of file
+});
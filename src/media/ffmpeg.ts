@@ -0,0 +1,85 @@
+import ffmpegInstaller from '@ffmpeg-installer/ffmpeg';
+import { randomUUID } from 'crypto';
+import { unlink } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+const FFMPEG_TIMEOUT_MS = 30000;
+
+export interface MediaProbe {
+  width?: number;
+  height?: number;
+  // Длительность в секундах
+  duration?: number;
+}
+
+export interface ProbeResult {
+  probe: MediaProbe;
+  thumbnail?: Blob;
+}
+
+// Параметры входного файла из вывода ffmpeg: "Duration: 00:01:02.50" и "Video: h264 ..., 1280x720"
+export function parseProbe(output: string): MediaProbe {
+  const probe: MediaProbe = {};
+
+  const duration = output.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (duration) {
+    probe.duration = Number(duration[1]) * 3600 + Number(duration[2]) * 60 + Number(duration[3]);
+  }
+
+  const size = output.match(/Stream #\d+:\d+.*?: Video: .*?(\d{2,5})x(\d{2,5})/);
+  if (size) {
+    probe.width = Number(size[1]);
+    probe.height = Number(size[2]);
+  }
+
+  return probe;
+}
+
+async function runFfmpeg(args: string[]): Promise<{ exitCode: number, stderr: string }> {
+  const proc = Bun.spawn([ffmpegInstaller.path, '-hide_banner', ...args], { stdout: 'ignore', stderr: 'pipe' });
+  const timer = setTimeout(() => proc.kill(), FFMPEG_TIMEOUT_MS);
+
+  try {
+    const stderr = await new Response(proc.stderr).text();
+    const exitCode = await proc.exited;
+    return { exitCode, stderr };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Размеры и длительность файла, для изображений и видео — еще и превью в JPEG шириной не больше thumbnailWidth.
+// Ошибка ffmpeg не мешает сохранить файл: метаданные просто остаются пустыми
+export async function probeMedia(data: Uint8Array, mimeType: string, thumbnailWidth?: number): Promise<ProbeResult> {
+  const base = path.join(os.tmpdir(), `media_${randomUUID()}`);
+  const input = `${base}.in`;
+  const output = `${base}.jpg`;
+  const withThumbnail = Boolean(thumbnailWidth) && (mimeType.startsWith('image/') || mimeType.startsWith('video/'));
+
+  try {
+    await Bun.write(input, data);
+
+    // Без выходного файла ffmpeg завершается с ошибкой, но успевает напечатать параметры входного
+    const { exitCode, stderr } = await runFfmpeg(withThumbnail
+      ? ['-y', '-i', input, '-frames:v', '1', '-vf', `scale='min(${thumbnailWidth},iw)':-2`, '-q:v', '4', output]
+      : ['-i', input]);
+
+    const result: ProbeResult = { probe: parseProbe(stderr) };
+    if (withThumbnail) {
+      const thumbnail = Bun.file(output, { type: 'image/jpeg' });
+      if (exitCode === 0 && await thumbnail.exists()) {
+        result.thumbnail = new Blob([await thumbnail.arrayBuffer()], { type: 'image/jpeg' });
+      } else {
+        console.error(`ffmpeg could not create a thumbnail for ${mimeType}: ${stderr.trim().split('\n').pop()}`);
+      }
+    }
+    return result;
+  } catch (error) {
+    console.error(`Failed to probe ${mimeType} media:`, error);
+    return { probe: {} };
+  } finally {
+    await unlink(input).catch(() => { });
+    await unlink(output).catch(() => { });
+  }
+}
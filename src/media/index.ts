@@ -0,0 +1,176 @@
+import { createHash } from 'crypto';
+import { extname } from 'path';
+import dotenv from 'dotenv';
+import { MessageType } from '../models';
+import { findMediaByHash, saveMediaFile } from '../storage';
+import { extensionForMime, messageTypeForMime } from '../utils/mime';
+import { probeMedia } from './ffmpeg';
+import { resolveMimeType, SNIFF_BYTES } from './sniff';
+
+dotenv.config();
+
+const MB = 1024 * 1024;
+const SIZE_LIMITS = {
+  image: parseFloat(process.env.MEDIA_MAX_IMAGE_MB || '10') * MB,
+  audio: parseFloat(process.env.MEDIA_MAX_AUDIO_MB || '25') * MB,
+  video: parseFloat(process.env.MEDIA_MAX_VIDEO_MB || '50') * MB,
+  document: parseFloat(process.env.MEDIA_MAX_DOCUMENT_MB || '20') * MB
+};
+const MAX_SIZE = Math.max(...Object.values(SIZE_LIMITS));
+// 0 отключает превью
+const MEDIA_THUMBNAIL_WIDTH = parseInt(process.env.MEDIA_THUMBNAIL_WIDTH || '320');
+
+export class MediaTooLargeError extends Error {
+  constructor(public size: number, public limit: number, public mimeType: string) {
+    super(`Media file of type ${mimeType} exceeds ${Number((limit / MB).toFixed(2))} MB limit`);
+    this.name = 'MediaTooLargeError';
+  }
+}
+
+export interface MediaHint {
+  fileName?: string;
+  // Тип, заявленный платформой; проверяется по содержимому
+  mimeType?: string;
+}
+
+export interface StoredMedia {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  type: MessageType;
+  size: number;
+  // Такой же файл уже был сохранен, возвращен его ID
+  duplicate: boolean;
+}
+
+function sizeLimit(mimeType: string): number {
+  const type = messageTypeForMime(mimeType);
+  if (type === 'image') return SIZE_LIMITS.image;
+  if (type === 'voice' || type === 'audio') return SIZE_LIMITS.audio;
+  if (type === 'video') return SIZE_LIMITS.video;
+  return SIZE_LIMITS.document;
+}
+
+function isMediaType(mimeType: string): boolean {
+  return ['image/', 'audio/', 'video/'].some(prefix => mimeType.startsWith(prefix));
+}
+
+// Файл читается потоком: как только по первым байтам понятен тип, действует лимит для этого типа,
+// и загрузка прерывается, не дожидаясь конца файла
+async function readResponse(response: Response, declared?: string): Promise<Uint8Array<ArrayBuffer>> {
+  const length = Number(response.headers.get('content-length'));
+  if (length > MAX_SIZE) {
+    await response.body?.cancel();
+    throw new MediaTooLargeError(length, MAX_SIZE, declared || 'unknown');
+  }
+  if (!response.body) {
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  let limit = MAX_SIZE;
+  let mimeType = declared || 'unknown';
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    const known = total >= SNIFF_BYTES;
+    chunks.push(chunk.value);
+    total += chunk.value.length;
+
+    if (!known && total >= SNIFF_BYTES) {
+      mimeType = resolveMimeType(concat(chunks, total), declared);
+      limit = sizeLimit(mimeType);
+    }
+    if (total > limit) {
+      await reader.cancel();
+      throw new MediaTooLargeError(total, limit, mimeType);
+    }
+  }
+
+  return concat(chunks, total);
+}
+
+function concat(chunks: Uint8Array[], total: number): Uint8Array<ArrayBuffer> {
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return data;
+}
+
+// Расширение файла приводится к настоящему типу: платформы часто присылают, например, PNG с именем .jpg.
+// Имена документов не меняются, чтобы не испортить .docx и подобные форматы внутри ZIP
+function mediaFileName(fileName: string | undefined, mimeType: string): string {
+  const extension = extensionForMime(mimeType);
+  if (!fileName) {
+    return `file_${Date.now()}.${extension}`;
+  }
+
+  const current = extname(fileName);
+  if (current && !isMediaType(mimeType)) {
+    return fileName;
+  }
+  return `${current ? fileName.slice(0, -current.length) : fileName}.${extension}`;
+}
+
+// Единая точка сохранения вложений для всех каналов: проверка типа по содержимому, лимиты размера,
+// дедупликация по SHA-256, размеры, длительность и превью
+export async function storeMedia(input: Response | Blob, hint: MediaHint, platform: string): Promise<StoredMedia> {
+  let declared = hint.mimeType;
+  let data: Uint8Array<ArrayBuffer>;
+
+  if (input instanceof Response) {
+    declared ||= input.headers.get('content-type') || undefined;
+    data = await readResponse(input, declared);
+  } else {
+    declared ||= input.type || undefined;
+    if (input.size > MAX_SIZE) {
+      throw new MediaTooLargeError(input.size, MAX_SIZE, declared || 'unknown');
+    }
+    data = new Uint8Array(await input.arrayBuffer());
+  }
+
+  if (!data.length) {
+    throw new Error('Media file is empty');
+  }
+
+  const mimeType = resolveMimeType(data, declared);
+  const limit = sizeLimit(mimeType);
+  if (data.length > limit) {
+    throw new MediaTooLargeError(data.length, limit, mimeType);
+  }
+
+  const fileName = mediaFileName(hint.fileName, mimeType);
+  const stored = { fileName, mimeType, type: messageTypeForMime(mimeType), size: data.length };
+  const sha256 = createHash('sha256').update(data).digest('hex');
+
+  const existing = await findMediaByHash(sha256);
+  if (existing) {
+    return { id: existing, ...stored, duplicate: true };
+  }
+
+  const { probe, thumbnail } = isMediaType(mimeType)
+    ? await probeMedia(data, mimeType, MEDIA_THUMBNAIL_WIDTH)
+    : { probe: {}, thumbnail: undefined };
+
+  const id = await saveMediaFile(
+    new Blob([data], { type: mimeType }),
+    fileName,
+    mimeType,
+    platform,
+    { sha256, size: data.length, ...probe },
+    thumbnail
+  );
+  return { id, ...stored, duplicate: false };
+}
+
+export async function downloadMedia(url: string, init: RequestInit | undefined, hint: MediaHint, platform: string): Promise<StoredMedia> {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`Failed to download file: ${response.status} ${response.statusText}`);
+  }
+  return await storeMedia(response, hint, platform);
+}
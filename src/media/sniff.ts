@@ -0,0 +1,71 @@
+// Для определения формата достаточно первых байтов файла
+export const SNIFF_BYTES = 64;
+
+function ascii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function startsWith(data: Uint8Array, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, index) => data[offset + index] === byte);
+}
+
+// Контейнер ISO BMFF (MP4, MOV, M4A, 3GP, HEIC) различается по бренду в блоке ftyp
+function sniffFtyp(brand: string): string {
+  if (['heic', 'heix', 'mif1', 'msf1'].includes(brand)) return 'image/heic';
+  if (brand === 'avif') return 'image/avif';
+  if (brand.startsWith('M4A') || brand.startsWith('M4B')) return 'audio/mp4';
+  if (brand === 'qt  ') return 'video/quicktime';
+  if (brand.startsWith('3gp')) return 'video/3gpp';
+  return 'video/mp4';
+}
+
+// MIME-тип по сигнатуре содержимого; null — формат не распознан
+export function sniffMimeType(data: Uint8Array): string | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (ascii(data, 0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(data, 0, 4) === 'RIFF') {
+    const format = ascii(data, 8, 4);
+    if (format === 'WEBP') return 'image/webp';
+    if (format === 'WAVE') return 'audio/wav';
+    if (format === 'AVI ') return 'video/x-msvideo';
+  }
+  if (startsWith(data, [0x42, 0x4d]) && data.length > 14 && data[6] === 0 && data[7] === 0) return 'image/bmp';
+  if (ascii(data, 4, 4) === 'ftyp') return sniffFtyp(ascii(data, 8, 4));
+  if (startsWith(data, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return ascii(data, 0, SNIFF_BYTES).includes('webm') ? 'video/webm' : 'video/x-matroska';
+  }
+  if (ascii(data, 0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(data, 0, 3) === 'ID3' || (data[0] === 0xff && (data[1] & 0xe6) === 0xe2)) return 'audio/mpeg';
+  if (data[0] === 0xff && (data[1] & 0xf6) === 0xf0) return 'audio/aac';
+  if (ascii(data, 0, 4) === 'fLaC') return 'audio/flac';
+  if (ascii(data, 0, 5) === '#!AMR') return 'audio/amr';
+  if (ascii(data, 0, 5) === '%PDF-') return 'application/pdf';
+  if (startsWith(data, [0x50, 0x4b, 0x03, 0x04])) return 'application/zip';
+  if (startsWith(data, [0x1f, 0x8b])) return 'application/gzip';
+  return null;
+}
+
+// Обобщенные контейнеры: DOCX и XLSX — это ZIP, стикеры Telegram — gzip,
+// поэтому для них заявленный тип точнее распознанного
+const GENERIC_CONTAINERS = ['application/zip', 'application/gzip'];
+
+function subtype(mimeType: string): string {
+  return mimeType.split('/')[1] || '';
+}
+
+// Распознанный тип важнее заявленного, кроме случаев, когда заявленный уточняет тот же формат
+// (audio/mp4 при распознанном video/mp4, DOCX при распознанном ZIP)
+export function resolveMimeType(data: Uint8Array, declared?: string): string {
+  const claimed = declared?.split(';')[0].trim().toLowerCase() || '';
+  const sniffed = sniffMimeType(data);
+
+  if (!sniffed) {
+    return claimed || 'application/octet-stream';
+  }
+  if (claimed && claimed !== 'application/octet-stream') {
+    if (GENERIC_CONTAINERS.includes(sniffed)) return claimed;
+    if (subtype(claimed) === subtype(sniffed)) return claimed;
+  }
+  return sniffed;
+}
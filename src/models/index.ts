@@ -1,6 +1,14 @@
 export type MessageSource = "telegram" | "whatsapp" | "instagram" | "widget";
-export type MessageType = "text" | "image" | "voice" | "audio";
-export type ResponseMode = "manual" | "auto";
+export type MessageType = "text" | "image" | "voice" | "audio" | "video" | "video_note" | "document" | "sticker" | "location" | "contact";
+// manual — отвечает оператор, auto — автоответчик, suggest — автоответчик готовит черновики, оператор их одобряет.
+// У сообщения suggest означает ответ оператора по черновику
+export type ResponseMode = "manual" | "auto" | "suggest";
+export type DeliveryStatus = "queued" | "sent" | "delivered" | "failed";
+
+export interface MessageEdit {
+  content: string;
+  editedAt: Date;
+}
 
 export interface Message {
   id?: string;
@@ -15,6 +23,20 @@ export interface Message {
   senderId: string;
   senderName?: string;
   responseMode: ResponseMode;
+  status?: DeliveryStatus;
+  error?: string;
+  // Число сделанных попыток отправки исходящего сообщения
+  attempts?: number;
+  editHistory?: MessageEdit[];
+  editedAt?: Date;
+  deleted?: boolean;
+  replyToMessageId?: string;
+  // Расшифровка голосового сообщения или описание изображения
+  transcription?: string;
+  // Время последнего изменения записи (правка, статус, расшифровка)
+  updated?: Date;
+  // Сообщение обезличено по сроку хранения: текст, файл и данные отправителя удалены
+  redactedAt?: Date;
 }
 
 export interface Chat {
@@ -23,6 +45,73 @@ export interface Chat {
   source: MessageSource;
   name: string;
   updated: Date;
+  // То же, что responseMode === "auto"; оставлено для совместимости
   autoMode: boolean;
+  responseMode: ResponseMode;
   openAIThreadId?: string;
-}
\ No newline at end of file
+  // Канал (адаптер), через который пришло последнее сообщение чата; через него же уходят ответы
+  channel?: string;
+  // Контакт, которому принадлежит личный чат; у одного контакта может быть несколько чатов в разных каналах
+  contactId?: string;
+}
+
+export type ContactAttributes = Record<string, string | number | boolean>;
+
+export interface Contact {
+  id?: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  username?: string;
+  notes?: string;
+  // Произвольные поля, например номер заказа или город
+  attributes?: ContactAttributes;
+  updated?: Date;
+}
+
+export type ToolCallStatus = "success" | "error" | "timeout";
+
+// Вызов инструмента моделью; журнал хранится для аудита действий автоответчика
+export interface ToolCall {
+  id?: string;
+  chatId: string;
+  // Сообщение клиента, в ответ на которое вызван инструмент
+  messageId?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  // Результат, переданный модели
+  output: string;
+  status: ToolCallStatus;
+  error?: string;
+  durationMs: number;
+  timestamp: Date;
+}
+
+export type DraftStatus = "pending" | "approved" | "discarded" | "superseded";
+
+// Ответ автоответчика в режиме suggest: уходит клиенту только после одобрения оператором
+export interface Draft {
+  id?: string;
+  chatId: string;
+  source: MessageSource;
+  // Канал, через который пришло сообщение клиента; через него уходит одобренный ответ
+  channel?: string;
+  // Последнее сообщение клиента, на которое подготовлен ответ
+  messageId?: string;
+  // Текст модели без правок
+  suggestedContent: string;
+  // Текст с правками оператора; у одобренного черновика — отправленный текст
+  content: string;
+  status: DraftStatus;
+  // Отправленное сообщение
+  sentMessageId?: string;
+  // Число правок (расстояние Левенштейна) между suggestedContent и отправленным текстом
+  editDistance?: number;
+  // Адресат для каналов, где отправка идет не по platformChatId (Brevo)
+  visitorId?: string;
+  replyToMessageId?: string;
+  timestamp: Date;
+  updated?: Date;
+  // Время одобрения или отклонения
+  decidedAt?: Date;
+}
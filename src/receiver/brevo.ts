@@ -1,15 +1,100 @@
 import { ConversationsApi, ConversationsApiApiKeys } from '@getbrevo/brevo';
+import { Hono } from 'hono';
 import { Message, MessageSource, MessageType } from '../models';
-import { findOrCreateChat, saveMediaFile, saveMessage } from "../storage/pocketbase";
-import { getAIResponse } from "../responder/openai";
+import { findOrCreateChat } from "../storage";
+import { downloadMedia } from '../media';
+import { getPublicMediaUrl } from '../utils/mediaUrl';
+import { ContactProfile } from '../utils/contacts';
+import { ChannelAdapter, handleInbound, InboundMessage, OutboundMedia } from "./channel";
 import dotenv from 'dotenv';
 
 dotenv.config();
 
 const apiInstance = new ConversationsApi();
-apiInstance.setApiKey(ConversationsApiApiKeys.apiKey, process.env.BREVO_API_KEY!);
+apiInstance.setApiKey(ConversationsApiApiKeys.apiKey, process.env.BREVO_API_KEY || '');
 const BREVO_AGENT_ID = process.env.BREVO_AGENT_ID;
+const hookSecret = process.env.BREVO_WEBHOOK_SECRET;
+const processedMessages = new Map<string, number>();
+
+interface BrevoInbound {
+  visitor: any;
+  message: any;
+  platform: string;
+  isIncoming: boolean;
+}
+
+export const brevoChannel: ChannelAdapter = {
+  name: "brevo",
+  sources: ["instagram", "whatsapp", "widget"],
+  capabilities: { text: true, media: ["image", "voice", "audio", "video", "document"] },
+  publicPaths: [`/brevohook/${hookSecret!}`],
+  isConfigured: () => Boolean(process.env.BREVO_API_KEY),
+  start: async (app) => mountBrevoRoutes(app),
+  stop: async () => { },
+  normalize: (raw: BrevoInbound) => normalizeBrevoMessage(raw.visitor, raw.message, raw.platform, raw.isIncoming),
+  sendText: (target, text) => sendBrevoMessage(target.visitorId || target.platformChatId, text),
+  sendMedia: (target, media) => sendBrevoMedia(target.visitorId || target.platformChatId, media)
+};
+
+// Очистка старых обработанных сообщений
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, timestamp] of processedMessages.entries()) {
+    if (now - timestamp > 3600000) {
+      processedMessages.delete(id);
+    }
+  }
+}, 600000);
+
+function mountBrevoRoutes(app: Hono) {
+  app.post(`/brevohook/${hookSecret!}`, async (c) => {
+    const body = await c.req.json();
+    console.log('Received webhook:', body);
+
+    const message = body.message || (body.messages && body.messages[0]);
+
+    if (!message) {
+      return c.text('No message found in webhook', 200);
+    }
+
+    if (processedMessages.has(message.id)) {
+      console.log(`Skipping duplicate message ID: ${message.id} (already processed)`);
+      return c.text('Duplicate message skipped', 200);
+    }
 
+    processedMessages.set(message.id, Date.now());
+
+    if ((body.message?.type === 'agent' || (body.messages && body.messages[0]?.type === 'agent'))) {
+      await processAgentMessage(body);
+    }
+
+    if (body.eventName === 'conversationFragment' && body.messages && body.messages.length > 0) {
+      const message = body.messages[0];
+      if (message.type === 'visitor') {
+        await processBrevoMessage(
+          body.visitor,
+          message,
+          body.visitor.source,
+          true
+        );
+      }
+    }
+
+    if (body.eventName === 'conversationStarted' && body.message) {
+      const message = body.message;
+      if (message.type === 'visitor') {
+        await processBrevoMessage(
+          body.visitor,
+          message,
+          body.visitor.source,
+          true
+        );
+      }
+    }
+
+    return c.text('Webhook received successfully', 200);
+  });
+}
 
 export async function processAgentMessage(body: any) {
   const message = body.message || body.messages[0];
@@ -26,91 +111,73 @@ export async function processAgentMessage(body: any) {
 }
 
 export async function processBrevoMessage(visitor: any, message: any, platform: string, isIncoming: boolean) {
-  try {
-    const chat = await findOrCreateChat(
-      visitor.threadId,
-      platform as MessageSource,
-      visitor.displayedName
-    );
-
-    if (!chat || !chat.id) {
-      console.error(`Failed to create/get chat for visitor: ${visitor.id}`);
-      return;
-    }
-
-    let msgType: MessageType = "text";
-    let content = message.text || "";
-    let mediaFileId: string | undefined;
-
-    if (message.file) {
-      if (message.file.isImage) {
-        msgType = "image";
-        if (message.file.link) {
-          try {
-            const response = await fetch(message.file.link);
-            if (response.ok) {
-              const blob = await response.blob();
-              mediaFileId = await saveMediaFile(
-                blob,
-                `brevo_${platform}_${message.id}.jpg`,
-                "image/jpeg",
-                platform as MessageSource
-              );
-            }
-          } catch (error) {
-            console.error("Error downloading image:", error);
-          }
-        }
-      } else {
-        msgType = "audio";
-        if (message.file.link) {
-          try {
-            const response = await fetch(message.file.link);
-            if (response.ok) {
-              const blob = await response.blob();
-              mediaFileId = await saveMediaFile(
-                blob,
-                `brevo_${platform}_${message.id}.mp4`,
-                "audio/mp4",
-                platform as MessageSource
-              );
-            }
-          } catch (error) {
-            console.error("Error downloading audio:", error);
-          }
-        }
-      }
-    }
+  await handleInbound(brevoChannel, { visitor, message, platform, isIncoming });
+}
 
-    const msg: Message = {
-      source: platform as MessageSource,
-      platformMessageId: message.id,
-      chatId: chat.id,
-      type: msgType,
-      content: content,
-      mediaFileId: mediaFileId || undefined,
-      isIncoming: isIncoming,
-      timestamp: new Date(message.createdAt),
-      senderId: isIncoming ? visitor.id : message.agentId || process.env.OPENAI_ASSISTANT_ID!,
-      senderName: isIncoming ? visitor.displayedName : message.agentName || "OpenAI Assistant",
-      responseMode: isIncoming ? "manual" : "auto"
-    };
+async function normalizeBrevoMessage(visitor: any, message: any, platform: string, isIncoming: boolean): Promise<InboundMessage | null> {
+  const chat = await findOrCreateChat(
+    visitor.threadId,
+    platform as MessageSource,
+    visitor.displayedName
+  );
 
-    await saveMessage(msg);
+  if (!chat || !chat.id) {
+    console.error(`Failed to create/get chat for visitor: ${visitor.id}`);
+    return null;
+  }
 
-    if (!isIncoming) {
-      return;
+  let msgType: MessageType = "text";
+  let content = message.text || "";
+  let mediaFileId: string | undefined;
+
+  if (message.file) {
+    // Brevo сообщает только, изображение ли это; остальные типы определяются по содержимому файла
+    msgType = message.file.isImage ? "image" : "audio";
+    if (message.file.link) {
+      try {
+        const stored = await downloadMedia(message.file.link, undefined, {
+          fileName: message.file.filename || `brevo_${platform}_${message.id}`,
+          ...(message.file.isImage && { mimeType: "image/jpeg" })
+        }, platform);
+        mediaFileId = stored.id;
+        msgType = stored.type;
+      } catch (error) {
+        console.error("Error downloading Brevo file:", error);
+      }
     }
+  }
 
-    if (chat.autoMode && isIncoming) {
-      console.log(`Generating auto-reply for message: ${message.id}`);
-      const res = await getAIResponse(msg, chat.openAIThreadId!);
+  const msg: Message = {
+    source: platform as MessageSource,
+    platformMessageId: message.id,
+    chatId: chat.id,
+    type: msgType,
+    content: content,
+    mediaFileId: mediaFileId || undefined,
+    isIncoming: isIncoming,
+    timestamp: new Date(message.createdAt),
+    senderId: isIncoming ? visitor.id : message.agentId || process.env.OPENAI_ASSISTANT_ID!,
+    senderName: isIncoming ? visitor.displayedName : message.agentName || "OpenAI Assistant",
+    responseMode: isIncoming ? "manual" : "auto"
+  };
+
+  return {
+    chat,
+    message: msg,
+    target: { platformChatId: visitor.threadId, visitorId: visitor.id },
+    ...(isIncoming && { contact: visitorProfile(visitor) })
+  };
+}
 
-      await sendBrevoMessage(visitor.id, res);
-    }
-  } catch (error) {
-    console.error("Error processing Brevo message:", error);
-  }
+// Brevo передает данные, указанные посетителем в чате (attributes), и поля связанного контакта CRM (contactAttributes)
+function visitorProfile(visitor: any): ContactProfile {
+  const attributes = visitor.attributes || {};
+  const crm = visitor.contactAttributes || {};
+  return {
+    name: attributes.name || [crm.FIRSTNAME, crm.LASTNAME].filter(Boolean).join(' ') || visitor.displayedName,
+    email: attributes.email || crm.EMAIL,
+    phone: attributes.phone || crm.SMS
+  };
 }
 
 export async function sendBrevoMessage(visitorId: string, text: string): Promise<string | null> {
@@ -122,10 +189,23 @@ export async function sendBrevoMessage(visitorId: string, text: string): Promise
     };
 
     const response = await apiInstance.conversationsMessagesPost(payload);
+    // Brevo присылает отправленное сообщение обратно вебхуком агента, оно уже сохранено
+    processedMessages.set(response.body.id!, Date.now());
     return response.body.id!;
 
   } catch (error) {
     console.error("Error sending Brevo message:", error);
-    return null;
+    throw error;
   }
 }
+
+// Conversations API Brevo не принимает вложения от агента, поэтому файл отправляется ссылкой
+export async function sendBrevoMedia(visitorId: string, media: OutboundMedia): Promise<string | null> {
+  const url = await getPublicMediaUrl(media.mediaFileId);
+  if (!url) {
+    throw new Error(`Media record with ID ${media.mediaFileId} not found`);
+  }
+
+  const text = media.caption ? `${media.caption}\n${url}` : url;
+  return await sendBrevoMessage(visitorId, text);
+}
@@ -0,0 +1,327 @@
+import { Hono } from 'hono';
+import { ServerWebSocket } from 'bun';
+import { Chat, Message, MessageSource, MessageType } from '../models';
+import { findMessageByPlatformId, getChatById, getLastIncomingMessage, saveMessage, updateChatChannel, updateMessage, updateResponseMode } from "../storage";
+import { publish } from '../api/realtime';
+import { Escalation, getAIResponse, responderSenderId, responderSenderName } from "../responder";
+import { HANDOFF_MESSAGE } from "../responder/handoff";
+import { enqueueReply } from "../responder/queue";
+import { publishNewMessage, sendOutbound } from "./outbound";
+import { createDraft } from "./drafts";
+import { ContactProfile, syncContactProfile } from '../utils/contacts';
+
+export interface ChannelCapabilities {
+  text: boolean;
+  media: MessageType[];
+}
+
+// Адресат исходящего сообщения. visitorId нужен каналам, где отправка идет не по platformChatId (Brevo)
+export interface OutboundTarget {
+  platformChatId: string;
+  visitorId?: string;
+  replyToPlatformMessageId?: string;
+}
+
+export interface OutboundMedia {
+  type: MessageType;
+  mediaFileId: string;
+  file: Blob;
+  fileName: string;
+  mimeType: string;
+  caption?: string;
+}
+
+export interface InboundMessage {
+  chat: Chat;
+  message: Message;
+  target: OutboundTarget;
+  // false — сообщение только сохраняется, без автоответа (например, в группе бота не упомянули)
+  autoReply?: boolean;
+  // Автоответ отправляется ответом на исходное сообщение
+  quoteReply?: boolean;
+  // Профиль отправителя для карточки контакта; только для личных чатов
+  contact?: ContactProfile;
+}
+
+export interface InboundEdit {
+  chat: Chat;
+  target: OutboundTarget;
+  platformMessageId: string;
+  content: string;
+  editedAt: Date;
+  autoReply?: boolean;
+  quoteReply?: boolean;
+}
+
+// WebSocket-подключения канала на общем сервере
+export interface ChannelSocket {
+  path: string;
+  // Данные, привязываемые к соединению; null — отказ в подключении
+  accept(req: Request): Record<string, any> | null;
+  open?(ws: ServerWebSocket<any>): void;
+  message?(ws: ServerWebSocket<any>, message: string | Buffer): void;
+  close?(ws: ServerWebSocket<any>): void;
+}
+
+export interface ChannelAdapter {
+  name: string;
+  sources: MessageSource[];
+  capabilities: ChannelCapabilities;
+  // Пути вебхуков, которые не требуют X-API-Key
+  publicPaths?: string[];
+  socket?: ChannelSocket;
+  isConfigured(): boolean;
+  start(app: Hono): Promise<void>;
+  // Вызывается после запуска HTTP-сервера, когда маршруты канала уже доступны извне
+  onListen?(): Promise<void>;
+  stop(): Promise<void>;
+  normalize(raw: any): Promise<InboundMessage | null>;
+  sendText(target: OutboundTarget, text: string): Promise<string | null>;
+  // Поддерживаемые типы перечислены в capabilities.media
+  sendMedia?(target: OutboundTarget, media: OutboundMedia): Promise<string | null>;
+}
+
+const REPLY_ON_EDIT = process.env.REPLY_ON_EDIT === 'true';
+const DEFAULT_CHANNELS = ['telegram', 'whatsapp', 'instagram', 'widget', 'brevo'];
+
+const registered = new Map<string, ChannelAdapter>();
+const active: ChannelAdapter[] = [];
+
+export function registerChannel(adapter: ChannelAdapter) {
+  registered.set(adapter.name, adapter);
+}
+
+export function getChannel(name: string): ChannelAdapter | undefined {
+  return active.find(adapter => adapter.name === name);
+}
+
+// Порядок в CHANNELS задает приоритет, если источник обслуживается несколькими каналами
+export function getChannelForSource(source: MessageSource): ChannelAdapter | undefined {
+  return active.find(adapter => adapter.sources.includes(source));
+}
+
+// Ответ уходит через канал, принявший чат: один источник может обслуживаться и напрямую, и через Brevo.
+// Канал не записан только у чатов, созданных до его появления; тогда, кроме Telegram, переписка шла через Brevo
+export function getChannelForChat(chat: Chat): ChannelAdapter | undefined {
+  return getChannel(chat.channel || (chat.source === 'telegram' ? 'telegram' : 'brevo'));
+}
+
+export function isPublicPath(path: string): boolean {
+  return active.some(adapter => (adapter.publicPaths || []).some(publicPath => path === publicPath || path.startsWith(`${publicPath}/`)));
+}
+
+export function getSocketChannel(path: string): ChannelAdapter | undefined {
+  return active.find(adapter => adapter.socket?.path === path);
+}
+
+export async function startChannels(app: Hono, config: string = process.env.CHANNELS || '') {
+  const names = config
+    ? config.split(',').map(name => name.trim()).filter(Boolean)
+    : DEFAULT_CHANNELS;
+
+  for (const name of names) {
+    const adapter = registered.get(name);
+    if (!adapter) {
+      if (config) {
+        console.error(`Unknown channel in config: ${name}`);
+      }
+      continue;
+    }
+    if (!adapter.isConfigured()) {
+      if (config) {
+        console.error(`Channel ${name} is enabled but not configured, skipping`);
+      }
+      continue;
+    }
+
+    await adapter.start(app);
+    active.push(adapter);
+    console.log(`Channel ${name} started`);
+  }
+}
+
+export async function notifyListening() {
+  for (const adapter of active) {
+    try {
+      await adapter.onListen?.();
+    } catch (error) {
+      console.error(`Error in channel ${adapter.name} after server start:`, error);
+    }
+  }
+}
+
+export async function stopChannels() {
+  for (const adapter of active.splice(0)) {
+    try {
+      await adapter.stop();
+    } catch (error) {
+      console.error(`Error stopping channel ${adapter.name}:`, error);
+    }
+  }
+}
+
+export async function handleInbound(adapter: ChannelAdapter, raw: any): Promise<void> {
+  try {
+    const inbound = await adapter.normalize(raw);
+    if (!inbound) return;
+
+    const { chat, message, target } = inbound;
+    const saved = await saveMessage(message);
+    publishNewMessage(saved);
+
+    if (chat.channel !== adapter.name) {
+      await updateChatChannel(chat.id!, adapter.name);
+      chat.channel = adapter.name;
+    }
+
+    if (message.isIncoming && inbound.contact) {
+      await syncContactProfile(chat, inbound.contact).catch(error => {
+        console.error(`Failed to update contact for chat ${chat.id}:`, error);
+      });
+    }
+
+    if (message.isIncoming && chat.responseMode !== 'manual' && inbound.autoReply !== false) {
+      scheduleAutoReply(adapter, saved, chat, target, inbound.quoteReply);
+    }
+  } catch (error) {
+    console.error(`Error processing ${adapter.name} message:`, error);
+  }
+}
+
+// Цитируемое сообщение ищется среди сохраненных; если его нет в базе, связь не сохраняется
+export async function resolveReplyTo(platformMessageId: string | undefined, chatId: string): Promise<string | undefined> {
+  if (!platformMessageId) return undefined;
+
+  try {
+    const quoted = await findMessageByPlatformId(platformMessageId, chatId);
+    return quoted?.id;
+  } catch (error) {
+    console.error(`Failed to resolve quoted message ${platformMessageId}:`, error);
+    return undefined;
+  }
+}
+
+// История правок хранится в editHistory; автоответ повторяется, только если правили последнее входящее сообщение
+export async function handleEdit(adapter: ChannelAdapter, edit: InboundEdit): Promise<void> {
+  try {
+    const { chat, target, platformMessageId, content, editedAt } = edit;
+    const message = await findMessageByPlatformId(platformMessageId, chat.id);
+    if (!message) {
+      console.log(`Edited ${adapter.name} message ${platformMessageId} not found`);
+      return;
+    }
+    if (message.content === content) return;
+
+    const updated = await updateMessage(message.id!, {
+      content,
+      editedAt,
+      editHistory: [...(message.editHistory || []), { content: message.content, editedAt }]
+    });
+
+    publish("event", {
+      type: "message_edited",
+      messageId: updated.id,
+      chatId: updated.chatId,
+      content: updated.content,
+      previousContent: message.content,
+      editedAt
+    });
+
+    if (REPLY_ON_EDIT && chat.responseMode !== 'manual' && updated.isIncoming && edit.autoReply !== false) {
+      const latest = await getLastIncomingMessage(chat.id!);
+      if (latest?.id === updated.id) {
+        scheduleAutoReply(adapter, updated, chat, target, edit.quoteReply);
+      }
+    }
+  } catch (error) {
+    console.error(`Error processing ${adapter.name} message edit:`, error);
+  }
+}
+
+// Удаленные сообщения помечаются флагом deleted, содержимое остается для истории
+export async function handleDeletion(adapter: ChannelAdapter, chatId: string | undefined, platformMessageIds: string[]): Promise<void> {
+  for (const platformMessageId of platformMessageIds) {
+    try {
+      const message = await findMessageByPlatformId(platformMessageId, chatId);
+      if (!message || message.deleted) continue;
+
+      await updateMessage(message.id!, { deleted: true });
+      publish("event", {
+        type: "message_deleted",
+        messageId: message.id,
+        chatId: message.chatId
+      });
+    } catch (error) {
+      console.error(`Error processing ${adapter.name} message deletion:`, error);
+    }
+  }
+}
+
+// Сообщения, присланные подряд, получают один общий ответ (src/responder/queue.ts)
+function scheduleAutoReply(adapter: ChannelAdapter, message: Message, chat: Chat, target: OutboundTarget, quoteReply = false) {
+  enqueueReply(chat.id!, message, messages => sendAutoReply(adapter, messages, chat, target, quoteReply));
+}
+
+async function sendAutoReply(adapter: ChannelAdapter, messages: Message[], chat: Chat, target: OutboundTarget, quoteReply = false): Promise<void> {
+  const message = messages[messages.length - 1];
+  try {
+    // Пока ответ ждал в очереди, оператор мог сменить режим, а предыдущий ответ — создать тред
+    const current = await getChatById(chat.id!) ?? chat;
+    if (current.responseMode === 'manual') {
+      console.log(`Auto-reply for chat ${chat.id} skipped: response mode is manual`);
+      return;
+    }
+
+    console.log(`Generating auto-reply for ${messages.length} message(s), last: ${message.platformMessageId}`);
+    const res = await getAIResponse(messages, current);
+    if (res.escalation) {
+      await handOff(current, message, res.escalation);
+    }
+
+    // В режиме suggest ответ ждет оператора. Черновика нет, если модель не ответила или передала чат оператору:
+    // такой ответ (например, с маркером HANDOFF_MARKER) не предназначен клиенту
+    if (current.responseMode === 'suggest') {
+      if (res.content && !res.failed && !res.escalation) {
+        const draft = await createDraft(adapter, current, message, res.content, target, quoteReply);
+        console.log(`Draft ${draft.id} prepared for ${adapter.name} chat ${target.platformChatId}`);
+      }
+      return;
+    }
+    if (res.escalation && !HANDOFF_MESSAGE) return;
+
+    const msg: Message = {
+      source: message.source,
+      chatId: message.chatId,
+      type: "text",
+      content: res.escalation ? HANDOFF_MESSAGE : res.content,
+      isIncoming: false,
+      timestamp: new Date(),
+      senderId: responderSenderId,
+      senderName: responderSenderName,
+      responseMode: "auto",
+      ...(quoteReply && message.id && { replyToMessageId: message.id })
+    };
+
+    const sent = await sendOutbound(adapter, target, msg);
+    console.log(`Auto response to ${adapter.name} chat ${target.platformChatId}: ${sent.status}`);
+  } catch (error) {
+    console.error("Error sending auto response:", error);
+  }
+}
+
+// Чат переходит к оператору: автоответ и черновики отключаются, операторы получают событие с причиной
+async function handOff(chat: Chat, message: Message, escalation: Escalation): Promise<void> {
+  if (chat.responseMode !== 'manual') {
+    await updateResponseMode(chat.id!, 'manual');
+  }
+  console.log(`Chat ${chat.id} handed off to operator: ${escalation.rule} (${escalation.detail})`);
+
+  publish("event", {
+    type: "escalation",
+    chatId: chat.id,
+    messageId: message.id,
+    reason: escalation.rule,
+    detail: escalation.detail,
+    timestamp: new Date()
+  });
+}
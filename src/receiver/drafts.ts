@@ -0,0 +1,107 @@
+import { Chat, Draft, Message } from '../models';
+import { getDrafts, saveDraft, updateDraft } from '../storage';
+import { publish } from '../api/realtime';
+import { editDistance } from '../utils/draftStats';
+import { ChannelAdapter, OutboundTarget } from './channel';
+import { sendOutbound } from './outbound';
+
+// Черновики, которые сейчас отправляются, чтобы двойное одобрение не отправило ответ дважды
+const approving = new Set<string>();
+
+// Черновик уже одобрен, отклонен, заменен или отправляется прямо сейчас
+export class DraftConflictError extends Error {
+  constructor(draft: Draft) {
+    super(`Draft ${draft.id} is already ${approving.has(draft.id!) ? 'being sent' : draft.status}`);
+    this.name = 'DraftConflictError';
+  }
+}
+
+function publishDraft(draft: Draft) {
+  publish("event", {
+    type: "draft",
+    draftId: draft.id,
+    chatId: draft.chatId,
+    messageId: draft.messageId,
+    status: draft.status
+  });
+}
+
+function assertPending(draft: Draft) {
+  if (draft.status !== 'pending' || approving.has(draft.id!)) {
+    throw new DraftConflictError(draft);
+  }
+}
+
+// Ответ автоответчика в режиме suggest. Новый черновик заменяет неодобренные старые: они отвечали на ту же переписку
+export async function createDraft(
+  adapter: ChannelAdapter, chat: Chat, message: Message, content: string, target: OutboundTarget, quoteReply = false
+): Promise<Draft> {
+  const pending = await getDrafts({ chatId: chat.id, status: 'pending' }, { limit: 100 });
+  for (const old of pending.items) {
+    publishDraft(await updateDraft(old.id!, { status: 'superseded', decidedAt: new Date() }));
+  }
+
+  const draft = await saveDraft({
+    chatId: chat.id!,
+    source: message.source,
+    channel: adapter.name,
+    ...(message.id && { messageId: message.id }),
+    suggestedContent: content,
+    content,
+    status: 'pending',
+    ...(target.visitorId && { visitorId: target.visitorId }),
+    ...(quoteReply && message.id && { replyToMessageId: message.id }),
+    timestamp: new Date()
+  });
+  publishDraft(draft);
+  return draft;
+}
+
+export async function editDraft(draft: Draft, content: string): Promise<Draft> {
+  assertPending(draft);
+  const updated = await updateDraft(draft.id!, { content });
+  publishDraft(updated);
+  return updated;
+}
+
+export async function discardDraft(draft: Draft): Promise<Draft> {
+  assertPending(draft);
+  const updated = await updateDraft(draft.id!, { status: 'discarded', decidedAt: new Date() });
+  publishDraft(updated);
+  return updated;
+}
+
+// Одобренный черновик уходит обычным путем исходящих сообщений (sendOutbound) от имени оператора
+export async function approveDraft(
+  adapter: ChannelAdapter, draft: Draft, chat: Chat, content: string = draft.content, senderName?: string
+): Promise<{ draft: Draft, message: Message }> {
+  assertPending(draft);
+  approving.add(draft.id!);
+
+  try {
+    const message = await sendOutbound(adapter, { platformChatId: chat.platformChatId!, visitorId: draft.visitorId }, {
+      source: draft.source,
+      chatId: draft.chatId,
+      type: "text",
+      content,
+      isIncoming: false,
+      timestamp: new Date(),
+      senderId: 'api_client',
+      senderName: senderName || 'API Client',
+      responseMode: "suggest",
+      ...(draft.replyToMessageId && { replyToMessageId: draft.replyToMessageId })
+    });
+
+    const updated = await updateDraft(draft.id!, {
+      status: 'approved',
+      content,
+      sentMessageId: message.id,
+      editDistance: editDistance(draft.suggestedContent, content),
+      decidedAt: new Date()
+    });
+    publishDraft(updated);
+    return { draft: updated, message };
+  } finally {
+    approving.delete(draft.id!);
+  }
+}
@@ -0,0 +1,294 @@
+import dotenv from 'dotenv';
+import { Hono } from 'hono';
+import { Message, MessageType } from '../models';
+import { findOrCreateChat } from "../storage";
+import { downloadMedia } from '../media';
+import { parseWebhookBody, verifyMetaSignature } from '../utils/metaSignature';
+import { getPublicMediaUrl } from '../utils/mediaUrl';
+import { ChannelAdapter, handleDeletion, handleEdit, handleInbound, InboundMessage, OutboundMedia, resolveReplyTo } from "./channel";
+import { PlatformApiError, updateDeliveryStatus } from "./outbound";
+
+dotenv.config();
+
+const INSTAGRAM_TOKEN = process.env.INSTAGRAM_TOKEN;
+const INSTAGRAM_ACCOUNT_ID = process.env.INSTAGRAM_ACCOUNT_ID || 'me';
+const INSTAGRAM_VERIFY_TOKEN = process.env.INSTAGRAM_VERIFY_TOKEN;
+const INSTAGRAM_APP_SECRET = process.env.INSTAGRAM_APP_SECRET;
+const GRAPH_API_URL = process.env.INSTAGRAM_GRAPH_URL || 'https://graph.instagram.com/v20.0';
+const processedMessages = new Map<string, number>();
+
+const ATTACHMENT_TYPES: Record<string, MessageType> = {
+  image: "image",
+  audio: "audio",
+  video: "video",
+  file: "document",
+  story_mention: "image"
+};
+
+const OUTBOUND_ATTACHMENT_TYPES: Partial<Record<MessageType, string>> = {
+  image: "image",
+  voice: "audio",
+  audio: "audio",
+  video: "video",
+  document: "file"
+};
+
+export const instagramChannel: ChannelAdapter = {
+  name: "instagram",
+  sources: ["instagram"],
+  capabilities: { text: true, media: ["image", "voice", "audio", "video", "document"] },
+  publicPaths: ['/instagramhook'],
+  isConfigured: () => Boolean(INSTAGRAM_TOKEN),
+  start: async (app) => mountInstagramRoutes(app),
+  stop: async () => { },
+  normalize: (event: any) => normalizeInstagramMessage(event),
+  sendText: (target, text) => sendInstagramMessage(target.platformChatId, text),
+  sendMedia: (target, media) => sendInstagramMedia(target.platformChatId, media)
+};
+
+// Очистка старых обработанных сообщений
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, timestamp] of processedMessages.entries()) {
+    if (now - timestamp > 3600000) {
+      processedMessages.delete(id);
+    }
+  }
+}, 600000);
+
+function mountInstagramRoutes(app: Hono) {
+  if (!INSTAGRAM_APP_SECRET) {
+    console.error('INSTAGRAM_APP_SECRET is not set: Instagram webhook requests will be rejected');
+  }
+
+  app.get('/instagramhook', (c) => {
+    const challenge = verifyInstagramWebhook(
+      c.req.query('hub.mode'),
+      c.req.query('hub.verify_token'),
+      c.req.query('hub.challenge')
+    );
+
+    if (challenge === null) {
+      return c.text('Forbidden', 403);
+    }
+
+    return c.text(challenge, 200);
+  });
+
+  app.post('/instagramhook', async (c) => {
+    const rawBody = await c.req.text();
+
+    if (!verifyMetaSignature(rawBody, c.req.header('X-Hub-Signature-256'), INSTAGRAM_APP_SECRET)) {
+      console.error('Invalid Instagram webhook signature');
+      return c.text('Invalid signature', 401);
+    }
+
+    const body = parseWebhookBody(rawBody);
+    if (body === null) {
+      return c.text('Invalid JSON', 400);
+    }
+
+    // Meta ожидает быстрый ответ, поэтому обработка идет в фоне
+    processInstagramWebhook(body).catch(error => {
+      console.error('Error processing Instagram webhook:', error);
+    });
+
+    return c.text('Webhook received successfully', 200);
+  });
+}
+
+function verifyInstagramWebhook(mode?: string, token?: string, challenge?: string): string | null {
+  if (mode === 'subscribe' && token && token === INSTAGRAM_VERIFY_TOKEN) {
+    return challenge ?? '';
+  }
+  return null;
+}
+
+async function processInstagramWebhook(body: any) {
+  if (body?.object !== 'instagram') {
+    return;
+  }
+
+  for (const entry of body.entry || []) {
+    for (const event of entry.messaging || []) {
+      // Instagram не сообщает о доставке, прочтение считается доставкой
+      if (event.read?.mid) {
+        await updateDeliveryStatus(event.read.mid, "delivered");
+        continue;
+      }
+
+      if (event.message_edit?.mid) {
+        await processInstagramEdit(event);
+        continue;
+      }
+
+      const message = event.message;
+      if (message?.is_deleted) {
+        await handleDeletion(instagramChannel, undefined, [message.mid]);
+        continue;
+      }
+      if (!message || message.is_unsupported) continue;
+
+      if (processedMessages.has(message.mid)) {
+        console.log(`Skipping duplicate Instagram message ID: ${message.mid} (already processed)`);
+        continue;
+      }
+      processedMessages.set(message.mid, Date.now());
+
+      await handleInbound(instagramChannel, event);
+    }
+  }
+}
+
+async function processInstagramEdit(event: any) {
+  const userId = String(event.sender.id);
+  const chat = await findOrCreateChat(userId, "instagram");
+  if (!chat || !chat.id) {
+    console.error(`Failed to create/get chat for Instagram user: ${userId}`);
+    return;
+  }
+
+  await handleEdit(instagramChannel, {
+    chat,
+    target: { platformChatId: userId },
+    platformMessageId: event.message_edit.mid,
+    content: event.message_edit.text || "",
+    editedAt: new Date(event.timestamp || Date.now())
+  });
+}
+
+async function normalizeInstagramMessage(event: any): Promise<InboundMessage | null> {
+  const message = event.message;
+  // Эхо — сообщения, отправленные от имени аккаунта (например, оператором из приложения Instagram)
+  const isIncoming = !message.is_echo;
+  const userId = String(isIncoming ? event.sender.id : event.recipient.id);
+  const profileName = isIncoming ? await getInstagramProfileName(userId) : undefined;
+  const chat = await findOrCreateChat(userId, "instagram", profileName);
+
+  if (!chat || !chat.id) {
+    console.error(`Failed to create/get chat for Instagram user: ${userId}`);
+    return null;
+  }
+
+  let msgType: MessageType = "text";
+  let content = message.text || "";
+  let mediaFileId: string | undefined;
+
+  const attachment = (message.attachments || []).find((a: any) => ATTACHMENT_TYPES[a.type] && a.payload?.url);
+  if (attachment) {
+    msgType = ATTACHMENT_TYPES[attachment.type];
+    mediaFileId = await downloadInstagramAttachment(attachment.payload.url, message.mid, attachment.type);
+    if (attachment.type === "story_mention") {
+      content = content || "[Упоминание в истории]";
+    } else if (msgType === "audio") {
+      content = content || "Voice message";
+    }
+  } else if (!content && message.attachments?.length) {
+    content = (message.attachments as any[])
+      .map(a => a.payload?.url ? `[${a.type}: ${a.payload.url}]` : `[${a.type}]`)
+      .join('\n');
+  }
+
+  if (message.reply_to?.story) {
+    content = `[Ответ на историю: ${message.reply_to.story.url}]\n${content}`;
+  }
+
+  const replyToMessageId = await resolveReplyTo(message.reply_to?.mid, chat.id);
+
+  const msg: Message = {
+    source: "instagram",
+    platformMessageId: message.mid,
+    chatId: chat.id,
+    type: msgType,
+    content: content,
+    ...(mediaFileId && { mediaFileId }),
+    isIncoming: isIncoming,
+    timestamp: new Date(Number(event.timestamp)),
+    senderId: String(event.sender.id),
+    senderName: isIncoming ? profileName || "Unknown" : "Instagram",
+    responseMode: "manual",
+    ...(replyToMessageId && { replyToMessageId })
+  };
+
+  return { chat, message: msg, target: { platformChatId: userId } };
+}
+
+async function getInstagramProfileName(userId: string): Promise<string | undefined> {
+  try {
+    const response = await fetch(`${GRAPH_API_URL}/${userId}?fields=name,username&access_token=${INSTAGRAM_TOKEN}`);
+    if (!response.ok) {
+      return undefined;
+    }
+    const profile = await response.json();
+    return profile.name || profile.username;
+  } catch (error) {
+    console.error("Error fetching Instagram profile:", error);
+    return undefined;
+  }
+}
+
+async function downloadInstagramAttachment(url: string, messageId: string, attachmentType: string): Promise<string | undefined> {
+  try {
+    const stored = await downloadMedia(url, undefined, { fileName: `ig_${attachmentType}_${messageId}` }, "instagram");
+    return stored.id;
+  } catch (error) {
+    console.error("Error downloading Instagram attachment:", error);
+    return undefined;
+  }
+}
+
+export async function sendInstagramMessage(recipientId: string, text: string): Promise<string | null> {
+  return await postInstagramMessage(recipientId, { text });
+}
+
+// Instagram забирает вложение по ссылке и не поддерживает подписи, поэтому подпись уходит отдельным сообщением
+export async function sendInstagramMedia(recipientId: string, media: OutboundMedia): Promise<string | null> {
+  const url = await getPublicMediaUrl(media.mediaFileId);
+  if (!url) {
+    throw new Error(`Media record with ID ${media.mediaFileId} not found`);
+  }
+
+  const platformMessageId = await postInstagramMessage(recipientId, {
+    attachment: {
+      type: OUTBOUND_ATTACHMENT_TYPES[media.type] || 'file',
+      payload: { url }
+    }
+  });
+
+  if (media.caption) {
+    await sendInstagramMessage(recipientId, media.caption);
+  }
+
+  return platformMessageId;
+}
+
+async function postInstagramMessage(recipientId: string, message: Record<string, any>): Promise<string | null> {
+  try {
+    const response = await fetch(`${GRAPH_API_URL}/${INSTAGRAM_ACCOUNT_ID}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${INSTAGRAM_TOKEN}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        recipient: { id: recipientId },
+        message
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new PlatformApiError(`Instagram API error: ${response.status} ${errorText}`, response.status);
+    }
+
+    const result = await response.json();
+    if (result.message_id) {
+      // Эхо собственного сообщения не должно сохраняться повторно
+      processedMessages.set(result.message_id, Date.now());
+    }
+    return result.message_id ?? null;
+  } catch (error) {
+    console.error("Error sending Instagram message:", error);
+    throw error;
+  }
+}
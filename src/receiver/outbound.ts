@@ -0,0 +1,234 @@
+import { randomUUID } from 'crypto';
+import { DeliveryStatus, Message } from '../models';
+import {
+  claimOutbound, findMessageByPlatformId, getChatById, getLastIncomingMessage, getMediaFile, getMessage, getQueuedMessages,
+  replayStorageQueue, saveMessage, updateMessage
+} from "../storage";
+import { publish } from '../api/realtime';
+import { ChannelAdapter, getChannelForChat, OutboundTarget } from "./channel";
+
+const MAX_ATTEMPTS = parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || '5');
+const RETRY_BASE_MS = parseInt(process.env.OUTBOUND_RETRY_BASE_MS || '2000');
+// Отправляющий экземпляр обновляет сообщение после каждой попытки. Сообщение, которое в статусе queued не менялось дольше
+// OUTBOUND_LEASE_MS, считается брошенным (экземпляр остановлен) и отправляется заново; срок не короче паузы между попытками
+const LEASE_MS = Math.max(parseInt(process.env.OUTBOUND_LEASE_MS || '300000'), 2 * RETRY_BASE_MS * 2 ** MAX_ATTEMPTS);
+const RECOVERY_INTERVAL_MS = Math.min(LEASE_MS, 60000);
+
+let recoveryTimer: ReturnType<typeof setInterval> | undefined;
+let recovering = false;
+
+const STATUS_ORDER: Record<DeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  failed: 3
+};
+
+// Ответ API платформы с кодом ошибки; по коду решается, есть ли смысл повторять отправку
+export class PlatformApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'PlatformApiError';
+  }
+}
+
+// Сообщение сначала сохраняется со статусом queued, затем отправляется; неудачные попытки повторяются с экспоненциальной задержкой
+export async function sendOutbound(adapter: ChannelAdapter, target: OutboundTarget, message: Message): Promise<Message> {
+  const saved = await saveMessage({
+    ...message,
+    platformMessageId: message.platformMessageId || `out_${randomUUID()}`,
+    status: "queued"
+  });
+  publishNewMessage(saved);
+  publishStatus(saved);
+
+  return await attemptDelivery(adapter, target, saved, 1);
+}
+
+async function attemptDelivery(adapter: ChannelAdapter, target: OutboundTarget, message: Message, attempt: number): Promise<Message> {
+  try {
+    const platformMessageId = await deliver(adapter, target, message);
+    const updated = await updateMessage(message.id!, {
+      status: "sent",
+      error: "",
+      attempts: attempt,
+      ...(platformMessageId && { platformMessageId })
+    });
+    publishStatus(updated);
+    return updated;
+  } catch (error: any) {
+    const errorText = error?.message || String(error);
+    console.error(`Outbound message ${message.id} attempt ${attempt}/${MAX_ATTEMPTS} failed:`, errorText);
+
+    const failed = attempt >= MAX_ATTEMPTS || !isRetryable(error);
+    const updated = await updateMessage(message.id!, {
+      status: failed ? "failed" : "queued",
+      error: errorText,
+      attempts: attempt
+    }).catch(updateError => {
+      console.error(`Failed to update status of message ${message.id}:`, updateError);
+      return { ...message, status: failed ? "failed" : "queued", error: errorText, attempts: attempt } as Message;
+    });
+    publishStatus(updated);
+
+    if (!failed) {
+      const delay = RETRY_BASE_MS * 2 ** (attempt - 1);
+      setTimeout(() => {
+        attemptDelivery(adapter, target, message, attempt + 1).catch(retryError => {
+          console.error(`Retry of message ${message.id} failed:`, retryError);
+        });
+      }, delay);
+    }
+
+    return updated;
+  }
+}
+
+// Брошенные сообщения проверяются при запуске и затем раз в минуту: после перезапуска свои же сообщения
+// предыдущего процесса становятся брошенными только через OUTBOUND_LEASE_MS
+export function startOutboundRecovery() {
+  const run = () => resumeOutbound().catch(error => {
+    console.error('Error resuming outbound messages:', error);
+  });
+  run();
+  recoveryTimer = setInterval(run, RECOVERY_INTERVAL_MS);
+  recoveryTimer.unref?.();
+}
+
+export function stopOutboundRecovery() {
+  if (recoveryTimer) {
+    clearInterval(recoveryTimer);
+    recoveryTimer = undefined;
+  }
+}
+
+// Брошенное сообщение забирает один экземпляр (claimOutbound) и продолжает с сохраненного счетчика попыток
+export async function resumeOutbound(): Promise<void> {
+  if (recovering) return;
+
+  recovering = true;
+  try {
+    // Пока не записаны отложенные обновления, хранилище может показывать уже отправленные сообщения как queued
+    const pending = await replayStorageQueue();
+    if (pending) {
+      console.log(`Outbound recovery postponed: ${pending} storage writes pending`);
+      return;
+    }
+
+    const staleBefore = new Date(Date.now() - LEASE_MS);
+    for (const message of await getQueuedMessages(staleBefore)) {
+      await resumeMessage(message, staleBefore);
+    }
+  } finally {
+    recovering = false;
+  }
+}
+
+async function resumeMessage(message: Message, staleBefore: Date): Promise<void> {
+  try {
+    if (!await claimOutbound(message, staleBefore)) return;
+
+    const attempt = (message.attempts ?? 0) + 1;
+    if (attempt > MAX_ATTEMPTS) {
+      const updated = await updateMessage(message.id!, { status: "failed" });
+      publishStatus(updated);
+      return;
+    }
+    console.log(`Resuming delivery of message ${message.id}, attempt ${attempt}/${MAX_ATTEMPTS}`);
+
+    const chat = await getChatById(message.chatId);
+    const adapter = chat && getChannelForChat(chat);
+    if (!chat?.platformChatId || !adapter) {
+      const updated = await updateMessage(message.id!, { status: "failed", error: "No active channel for chat" });
+      publishStatus(updated);
+      return;
+    }
+
+    // visitorId нужен Brevo: это отправитель входящих сообщений чата
+    const visitorId = (await getLastIncomingMessage(chat.id!))?.senderId;
+    await attemptDelivery(adapter, { platformChatId: chat.platformChatId, ...(visitorId && { visitorId }) }, message, attempt);
+  } catch (error) {
+    console.error(`Failed to resume delivery of message ${message.id}:`, error);
+  }
+}
+
+// Повторяются сетевые ошибки, 5xx и 429; другие ответы 4xx (неверный получатель, закрытое окно диалога) повтор не исправит
+function isRetryable(error: any): boolean {
+  const status = errorStatus(error);
+  return status === undefined || status === 429 || status >= 500;
+}
+
+// Код ответа: PlatformApiError (WhatsApp, Instagram), error_code у GrammyError (Telegram), statusCode у HttpError (Brevo SDK)
+function errorStatus(error: any): number | undefined {
+  if (error instanceof PlatformApiError) return error.status;
+  return error?.error_code ?? error?.statusCode;
+}
+
+async function deliver(adapter: ChannelAdapter, target: OutboundTarget, message: Message): Promise<string | null> {
+  if (message.replyToMessageId) {
+    const quoted = await getMessage(message.replyToMessageId);
+    if (quoted?.platformMessageId && !quoted.platformMessageId.startsWith('out_')) {
+      target = { ...target, replyToPlatformMessageId: quoted.platformMessageId };
+    }
+  }
+
+  if (!message.mediaFileId) {
+    return await adapter.sendText(target, message.content);
+  }
+
+  if (!adapter.sendMedia || !adapter.capabilities.media.includes(message.type)) {
+    throw new Error(`Channel ${adapter.name} does not support ${message.type} messages`);
+  }
+
+  const media = await getMediaFile(message.mediaFileId);
+  if (!media) {
+    throw new Error(`Media record with ID ${message.mediaFileId} not found`);
+  }
+
+  return await adapter.sendMedia(target, {
+    type: message.type,
+    mediaFileId: message.mediaFileId,
+    file: media.file,
+    fileName: media.fileName,
+    mimeType: media.mimeType,
+    ...(message.content && { caption: message.content })
+  });
+}
+
+// Статусы доставки, которые сообщает платформа (WhatsApp, Instagram)
+export async function updateDeliveryStatus(platformMessageId: string, status: DeliveryStatus, error?: string): Promise<void> {
+  try {
+    const message = await findMessageByPlatformId(platformMessageId);
+    if (!message || message.isIncoming) return;
+
+    if (message.status && STATUS_ORDER[status] <= STATUS_ORDER[message.status]) return;
+
+    const updated = await updateMessage(message.id!, { status, ...(error && { error }) });
+    publishStatus(updated);
+  } catch (err) {
+    console.error(`Failed to update delivery status for ${platformMessageId}:`, err);
+  }
+}
+
+// Новое сообщение для операторов; не зависит от хранилища, в отличие от /pb-hook
+export function publishNewMessage(message: Message) {
+  publish("event", {
+    type: "message",
+    messageId: message.id,
+    chatId: message.chatId,
+    source: message.source,
+    isIncoming: message.isIncoming,
+    timestamp: message.timestamp
+  });
+}
+
+function publishStatus(message: Message) {
+  publish("event", {
+    type: "status",
+    messageId: message.id,
+    chatId: message.chatId,
+    platformMessageId: message.platformMessageId,
+    status: message.status,
+    ...(message.error && { error: message.error })
+  });
+}
@@ -1,29 +1,98 @@
-import { Bot, Context, GrammyError, HttpError } from 'grammy';
+import { Bot, Context, GrammyError, HttpError, InputFile, webhookCallback } from 'grammy';
+import type { Message as TgMessage, User } from 'grammy/types';
+import { Hono } from 'hono';
 import dotenv from 'dotenv';
-import { findOrCreateChat, saveMediaFile, saveMessage } from "../storage/pocketbase";
-import { Message } from '../models';
-import { getAIResponse } from "../responder/openai";
+import { findOrCreateChat, saveChat } from "../storage";
+import { downloadMedia } from '../media';
+import { Chat, Message } from '../models';
+import { extensionForMime } from '../utils/mime';
+import { ContactProfile } from '../utils/contacts';
+import { ChannelAdapter, handleEdit, handleInbound, InboundMessage, OutboundMedia, resolveReplyTo } from "./channel";
 
 dotenv.config();
-const bot = new Bot(process.env.TELEGRAM_TOKEN!);
+let bot: Bot;
 
-export async function startTGBot() {
+const TELEGRAM_MODE = process.env.TELEGRAM_MODE === 'webhook' ? 'webhook' : 'polling';
+const TELEGRAM_WEBHOOK_URL = process.env.TELEGRAM_WEBHOOK_URL;
+const TELEGRAM_WEBHOOK_SECRET = process.env.TELEGRAM_WEBHOOK_SECRET;
+const TELEGRAM_WEBHOOK_PATH = process.env.TELEGRAM_WEBHOOK_PATH || '/tghook';
+// Вебхук один на всего бота: при нескольких экземплярах удалять его при остановке одного нельзя
+const TELEGRAM_DELETE_WEBHOOK_ON_STOP = process.env.TELEGRAM_DELETE_WEBHOOK_ON_STOP === 'true';
+
+export const telegramChannel: ChannelAdapter = {
+  name: "telegram",
+  sources: ["telegram"],
+  capabilities: { text: true, media: ["image", "voice", "audio", "video", "video_note", "document", "sticker"] },
+  publicPaths: TELEGRAM_MODE === 'webhook' ? [TELEGRAM_WEBHOOK_PATH] : [],
+  isConfigured: () => Boolean(process.env.TELEGRAM_TOKEN),
+  start: (app) => startTGBot(app),
+  onListen: () => registerWebhook(),
+  stop: () => stopTGBot(),
+  normalize: (ctx: Context) => normalizeTgMessage(ctx),
+  sendText: (target, text) => sendTelegramMessage(target.platformChatId, text, target.replyToPlatformMessageId),
+  sendMedia: (target, media) => sendTelegramMedia(target.platformChatId, media, target.replyToPlatformMessageId)
+};
+
+export async function startTGBot(app: Hono) {
+  bot = new Bot(process.env.TELEGRAM_TOKEN!);
   setupHandlers();
   setupErrorHandling();
-  await bot.start();
-}
 
-function setupHandlers() {
-  bot.on('message:text', async (ctx) => {
-    await handleTgTextMessage(ctx);
-  });
+  if (TELEGRAM_MODE === 'webhook') {
+    await startWebhook(app);
+    return;
+  }
 
-  bot.on('message:photo', async (ctx) => {
-    await handleTgPhotoMessage(ctx);
+  // bot.start() завершается только после остановки бота, поэтому не ждем его
+  bot.start().catch(error => {
+    console.error("Telegram polling stopped with error:", error);
   });
+}
+
+async function startWebhook(app: Hono) {
+  if (!TELEGRAM_WEBHOOK_URL) {
+    throw new Error("TELEGRAM_WEBHOOK_URL is required in webhook mode");
+  }
+  // Путь вебхука публичный, поэтому без секрета обновления мог бы присылать кто угодно
+  if (!TELEGRAM_WEBHOOK_SECRET) {
+    throw new Error("TELEGRAM_WEBHOOK_SECRET is required in webhook mode");
+  }
+
+  // Автоответ может занять больше 10 секунд, поэтому Telegram получает ответ сразу, а обработка продолжается
+  app.post(TELEGRAM_WEBHOOK_PATH, webhookCallback(bot, 'hono', {
+    secretToken: TELEGRAM_WEBHOOK_SECRET,
+    onTimeout: 'return'
+  }));
+
+  await bot.init();
+}
+
+// Вебхук регистрируется, когда сервер уже принимает запросы, иначе первые обновления Telegram не доставит
+async function registerWebhook() {
+  if (TELEGRAM_MODE !== 'webhook') return;
+
+  await bot.api.setWebhook(TELEGRAM_WEBHOOK_URL!, { secret_token: TELEGRAM_WEBHOOK_SECRET });
+  console.log(`Telegram webhook registered at ${TELEGRAM_WEBHOOK_URL}`);
+}
 
-  bot.on('message:voice', async (ctx) => {
-    await handleTgVoiceMessage(ctx);
+function setupHandlers() {
+  bot.on([
+    'message:text',
+    'message:photo',
+    'message:voice',
+    'message:audio',
+    'message:document',
+    'message:video',
+    'message:video_note',
+    'message:sticker',
+    'message:location',
+    'message:contact'
+  ], async (ctx) => {
+    await handleInbound(telegramChannel, ctx);
+  });
+  // Bot API не сообщает об удалении сообщений в личных чатах, поэтому отслеживаются только правки
+  bot.on('edited_message', async (ctx) => {
+    await handleTgEdit(ctx);
   });
   console.log("Telegram bot is started");
 }
@@ -41,153 +110,246 @@ function setupErrorHandling() {
   });
 }
 
-export async function handleTgTextMessage(ctx: Context) {
-  if (!ctx.message || !ctx.message.text) return;
+async function normalizeTgMessage(ctx: Context): Promise<InboundMessage | null> {
+  if (!ctx.message || !ctx.chat?.id) return null;
+
+  const platformChatId = String(ctx.chat.id);
+  const chat = await getTgChat(ctx);
+  if (!chat || !chat.id) {
+    console.error(`Failed to create/get chat for Telegram chat: ${platformChatId}`);
+    return null;
+  }
 
-  const platformChatId = String(ctx.chat?.id);
-  const chat = await findOrCreateChat(platformChatId, "telegram");
+  const replyToMessageId = await resolveReplyTo(
+    ctx.message.reply_to_message && String(ctx.message.reply_to_message.message_id),
+    chat.id
+  );
 
-  let msg: Message = {
-    source: "telegram",
+  const base = {
+    source: "telegram" as const,
     platformMessageId: String(ctx.message.message_id),
-    chatId: chat!.id!,
-    type: "text",
-    content: ctx.message.text,
+    chatId: chat.id,
     isIncoming: true,
     timestamp: new Date(ctx.message.date * 1000),
     senderId: String(ctx.from?.id),
-    senderName: ctx.from?.first_name || "Unknown",
-    responseMode: "manual"
+    senderName: displayName(ctx.from),
+    responseMode: "manual" as const,
+    ...(replyToMessageId && { replyToMessageId })
   };
 
-  await saveMessage(msg);
+  const m = ctx.message;
+  let msg: Message;
+
+  if (m.text) {
+    msg = { ...base, type: "text", content: m.text };
+  } else if (m.photo) {
+    const bestPhoto = m.photo[m.photo.length - 1];
+    const fileId = await saveTgFile(ctx, bestPhoto.file_id, `tg_photo_${bestPhoto.file_unique_id}.jpg`, "image/jpeg");
+
+    msg = { ...base, type: "image", content: m.caption || "", ...(fileId && { mediaFileId: fileId }) };
+  } else if (m.voice) {
+    const fileId = await saveTgFile(ctx, m.voice.file_id, `tg_voice_${m.voice.file_unique_id}.ogg`, "audio/ogg");
+
+    msg = { ...base, type: "audio", content: "Voice message", ...(fileId && { mediaFileId: fileId }) };
+  } else if (m.video_note) {
+    const fileId = await saveTgFile(ctx, m.video_note.file_id, `tg_video_note_${m.video_note.file_unique_id}.mp4`, "video/mp4");
+
+    msg = { ...base, type: "video_note", content: "Video message", ...(fileId && { mediaFileId: fileId }) };
+  } else if (m.video) {
+    const mimeType = m.video.mime_type || "video/mp4";
+    const fileName = m.video.file_name || `tg_video_${m.video.file_unique_id}.${extensionForMime(mimeType)}`;
+    const fileId = await saveTgFile(ctx, m.video.file_id, fileName, mimeType);
 
-  if (chat?.autoMode) {
-    await handleOpenAI(msg, platformChatId, chat!.openAIThreadId!);
+    msg = { ...base, type: "video", content: m.caption || "[Видео]", ...(fileId && { mediaFileId: fileId }) };
+  } else if (m.audio) {
+    const mimeType = m.audio.mime_type || "audio/mpeg";
+    const fileName = m.audio.file_name || `tg_audio_${m.audio.file_unique_id}.${extensionForMime(mimeType)}`;
+    const fileId = await saveTgFile(ctx, m.audio.file_id, fileName, mimeType);
+
+    msg = { ...base, type: "audio", content: m.caption || m.audio.title || fileName, ...(fileId && { mediaFileId: fileId }) };
+  } else if (m.sticker) {
+    const { mimeType, extension } = m.sticker.is_animated
+      ? { mimeType: "application/x-tgsticker", extension: "tgs" }
+      : m.sticker.is_video
+        ? { mimeType: "video/webm", extension: "webm" }
+        : { mimeType: "image/webp", extension: "webp" };
+    const fileId = await saveTgFile(ctx, m.sticker.file_id, `tg_sticker_${m.sticker.file_unique_id}.${extension}`, mimeType);
+
+    msg = { ...base, type: "sticker", content: m.sticker.emoji ? `[Стикер ${m.sticker.emoji}]` : "[Стикер]", ...(fileId && { mediaFileId: fileId }) };
+  } else if (m.document) {
+    const mimeType = m.document.mime_type || "application/octet-stream";
+    const fileName = m.document.file_name || `tg_document_${m.document.file_unique_id}.${extensionForMime(mimeType)}`;
+    const fileId = await saveTgFile(ctx, m.document.file_id, fileName, mimeType);
+
+    msg = { ...base, type: "document", content: m.caption || fileName, ...(fileId && { mediaFileId: fileId }) };
+  } else if (m.location) {
+    const coordinates = `${m.location.latitude}, ${m.location.longitude}`;
+    const content = m.venue
+      ? `[Геолокация: ${coordinates}; ${m.venue.title}, ${m.venue.address}]`
+      : `[Геолокация: ${coordinates}]`;
+
+    msg = { ...base, type: "location", content };
+  } else if (m.contact) {
+    const name = [m.contact.first_name, m.contact.last_name].filter(Boolean).join(" ");
+    msg = { ...base, type: "contact", content: `[Контакт: ${name}, ${m.contact.phone_number}]` };
+  } else {
+    return null;
   }
+
+  return {
+    chat,
+    message: msg,
+    target: { platformChatId },
+    ...(isGroupChat(ctx)
+      ? { autoReply: isAddressedToBot(m), quoteReply: true }
+      : { contact: contactProfile(ctx.from, m) })
+  };
 }
 
-export async function handleTgPhotoMessage(ctx: Context) {
-  if (!ctx.message?.photo || !ctx.chat?.id) return;
+function isGroupChat(ctx: Context): boolean {
+  return ctx.chat?.type === "group" || ctx.chat?.type === "supergroup";
+}
 
-  try {
-    const photoArray = ctx.message.photo;
-    const bestPhoto = photoArray[photoArray.length - 1];
-    const botToken = bot.token;
-    const file = await ctx.api.getFile(bestPhoto.file_id);
-    const fileUrl = `https://api.telegram.org/file/bot${botToken}/${file.file_path}`;
-    const fileResponse = await fetch(fileUrl);
-
-    if (!fileResponse.ok) {
-      throw new Error(`Failed to download file: ${fileResponse.status} ${fileResponse.statusText}`);
-    }
+function displayName(user?: User): string {
+  if (!user) return "Unknown";
+  return [user.first_name, user.last_name].filter(Boolean).join(" ") || user.username || "Unknown";
+}
 
-    const fileBlob = await fileResponse.blob();
-    const fileId = await saveMediaFile(fileBlob, `tg_photo_${bestPhoto.file_unique_id}.jpg`, "image/jpeg", "telegram");
-    const platformChatId = String(ctx.chat.id);
-    const chat = await findOrCreateChat(platformChatId, "telegram");
-
-    let msg: Message = {
-      source: "telegram",
-      platformMessageId: String(ctx.message.message_id),
-      chatId: chat!.id!,
-      type: "image",
-      content: ctx.message.caption || "",
-      mediaFileId: fileId,
-      isIncoming: true,
-      timestamp: new Date(ctx.message.date * 1000),
-      senderId: String(ctx.from?.id),
-      senderName: ctx.from?.first_name || "Unknown",
-      responseMode: "manual"
-    };
-
-    await saveMessage(msg);
-
-    if (chat?.autoMode) {
-      await handleOpenAI(msg, platformChatId, chat!.openAIThreadId!);
-    }
+// Телефон известен, только если собеседник поделился своим контактом
+function contactProfile(user: User | undefined, m: TgMessage): ContactProfile {
+  return {
+    name: displayName(user),
+    ...(user?.username && { username: user.username }),
+    ...(m.contact && m.contact.user_id === user?.id && { phone: m.contact.phone_number })
+  };
+}
 
-  } catch (error) {
-    console.error("Error processing photo message:", error);
+// Группа называется по заголовку, который может меняться, личный чат — по имени собеседника
+async function getTgChat(ctx: Context): Promise<Chat | null> {
+  const platformChatId = String(ctx.chat!.id);
+  if (!isGroupChat(ctx)) {
+    return await findOrCreateChat(platformChatId, "telegram", displayName(ctx.from));
+  }
+
+  const title = ctx.chat!.title || "Telegram group";
+  const chat = await findOrCreateChat(platformChatId, "telegram", title);
+  if (chat && chat.name !== title) {
+    return await saveChat({ ...chat, name: title });
   }
+  return chat;
 }
 
-export async function handleTgVoiceMessage(ctx: Context) {
-  if (!ctx.message?.voice || !ctx.chat?.id) return;
+// В группе бот отвечает, только если его упомянули или ответили на его сообщение
+function isAddressedToBot(m: TgMessage): boolean {
+  if (m.reply_to_message?.from?.id === bot.botInfo.id) return true;
 
-  try {
-    const botToken = bot.token;
-    const file = await ctx.api.getFile(ctx.message.voice.file_id);
-    const fileUrl = `https://api.telegram.org/file/bot${botToken}/${file.file_path}`;
+  const text = m.text ?? m.caption ?? "";
+  const entities = m.entities ?? m.caption_entities ?? [];
+  const mention = `@${bot.botInfo.username}`.toLowerCase();
 
-    const fileResponse = await fetch(fileUrl);
-    if (!fileResponse.ok) {
-      throw new Error(`Failed to download file: ${fileResponse.status} ${fileResponse.statusText}`);
-    }
+  return entities.some(entity =>
+    (entity.type === "text_mention" && entity.user.id === bot.botInfo.id) ||
+    ((entity.type === "mention" || entity.type === "bot_command") &&
+      text.slice(entity.offset, entity.offset + entity.length).toLowerCase().endsWith(mention))
+  );
+}
 
-    const fileBlob = await fileResponse.blob();
-    const fileId = await saveMediaFile(fileBlob, `tg_voice_${ctx.message.voice.file_unique_id}.ogg`, "audio/ogg", "telegram");
-    const platformChatId = String(ctx.chat.id);
-    const chat = await findOrCreateChat(platformChatId, "telegram");
-
-    const msg: Message = {
-      source: "telegram",
-      platformMessageId: String(ctx.message.message_id),
-      chatId: chat!.id!,
-      type: "audio",
-      content: "Voice message",
-      ...(fileId && { mediaFileId: fileId }),
-      isIncoming: true,
-      timestamp: new Date(ctx.message.date * 1000),
-      senderId: String(ctx.from?.id),
-      senderName: ctx.from?.first_name || "Unknown",
-      responseMode: "manual"
-    };
-
-    await saveMessage(msg);
-
-    if (chat?.autoMode && msg.isIncoming) {
-      await handleOpenAI(msg, platformChatId, chat!.openAIThreadId!);
-    }
-  } catch (error) {
-    console.error("Error processing voice message:", error);
+async function handleTgEdit(ctx: Context) {
+  const edited = ctx.editedMessage;
+  if (!edited || !ctx.chat?.id) return;
+
+  const platformChatId = String(ctx.chat.id);
+  const chat = await getTgChat(ctx);
+  if (!chat || !chat.id) {
+    console.error(`Failed to create/get chat for Telegram chat: ${platformChatId}`);
+    return;
   }
+
+  await handleEdit(telegramChannel, {
+    chat,
+    target: { platformChatId },
+    platformMessageId: String(edited.message_id),
+    content: edited.text ?? edited.caption ?? "",
+    editedAt: new Date((edited.edit_date ?? edited.date) * 1000),
+    ...(isGroupChat(ctx) && { autoReply: isAddressedToBot(edited), quoteReply: true })
+  });
 }
 
-async function handleOpenAI(message: Message, platformChatId: string, threadId: string): Promise<void> {
+// Файлы больше 20 МБ Bot API не отдает, поэтому сообщение сохраняется и без вложения
+async function saveTgFile(ctx: Context, fileId: string, fileName: string, mimeType: string): Promise<string | undefined> {
   try {
-    const res = await getAIResponse(message, threadId);
-    let msg: Message = {
-      source: "telegram",
-      platformMessageId: `auto_${Date.now()}`,
-      chatId: message.chatId,
-      type: "text",
-      content: res,
-      isIncoming: false,
-      timestamp: new Date(),
-      senderId: process.env.OPENAI_ASSISTANT_ID ?? "OpenAI",
-      senderName: "OpenAI Assistant",
-      responseMode: "auto"
-    };
-
-    await saveMessage(msg);
-    await sendTelegramMessage(platformChatId, res);
-    console.log(`Sent auto response to Telegram chat ${platformChatId}`);
+    const file = await ctx.api.getFile(fileId);
+    const fileUrl = `https://api.telegram.org/file/bot${bot.token}/${file.file_path}`;
+    const stored = await downloadMedia(fileUrl, undefined, { fileName, mimeType }, "telegram");
+    return stored.id;
   } catch (error) {
-    console.error("Error processing message:", error);
+    console.error(`Error saving Telegram file ${fileName}:`, error);
+    return undefined;
   }
 }
 
-export async function sendTelegramMessage(chatId: string, text: string): Promise<void> {
+function replyOptions(replyTo?: string) {
+  return replyTo
+    ? { reply_parameters: { message_id: Number(replyTo), allow_sending_without_reply: true } }
+    : {};
+}
+
+export async function sendTelegramMessage(chatId: string, text: string, replyTo?: string): Promise<string> {
   try {
-    await bot.api.sendMessage(chatId, text);
+    const sent = await bot.api.sendMessage(chatId, text, replyOptions(replyTo));
+    return String(sent.message_id);
   } catch (error) {
     console.error("Error sending Telegram message:", error);
     throw error;
   }
 }
 
+export async function sendTelegramMedia(chatId: string, media: OutboundMedia, replyTo?: string): Promise<string> {
+  try {
+    const file = new InputFile(new Uint8Array(await media.file.arrayBuffer()), media.fileName);
+    const options = { ...replyOptions(replyTo), ...(media.caption && { caption: media.caption }) };
+    let sent;
+
+    switch (media.type) {
+      case "image":
+        sent = await bot.api.sendPhoto(chatId, file, options);
+        break;
+      case "voice":
+        sent = await bot.api.sendVoice(chatId, file, options);
+        break;
+      case "audio":
+        sent = await bot.api.sendAudio(chatId, file, options);
+        break;
+      case "video":
+        sent = await bot.api.sendVideo(chatId, file, options);
+        break;
+      case "video_note":
+        sent = await bot.api.sendVideoNote(chatId, file, replyOptions(replyTo));
+        break;
+      case "sticker":
+        sent = await bot.api.sendSticker(chatId, file, replyOptions(replyTo));
+        break;
+      default:
+        sent = await bot.api.sendDocument(chatId, file, options);
+    }
+
+    return String(sent.message_id);
+  } catch (error) {
+    console.error("Error sending Telegram media:", error);
+    throw error;
+  }
+}
+
 export async function stopTGBot() {
   console.log("Stopping Telegram bot...");
+
+  if (TELEGRAM_MODE === 'webhook') {
+    if (TELEGRAM_DELETE_WEBHOOK_ON_STOP) {
+      await bot.api.deleteWebhook();
+      console.log("Telegram webhook removed");
+    }
+    return;
+  }
+
   await bot.stop();
 }
@@ -0,0 +1,280 @@
+import dotenv from 'dotenv';
+import { Hono } from 'hono';
+import { Message, MessageType } from '../models';
+import { findOrCreateChat } from "../storage";
+import { downloadMedia } from '../media';
+import { parseWebhookBody, verifyMetaSignature } from '../utils/metaSignature';
+import { ChannelAdapter, handleInbound, InboundMessage, OutboundMedia, resolveReplyTo } from "./channel";
+import { PlatformApiError, updateDeliveryStatus } from "./outbound";
+
+dotenv.config();
+
+const WHATSAPP_TOKEN = process.env.WHATSAPP_TOKEN;
+const WHATSAPP_PHONE_NUMBER_ID = process.env.WHATSAPP_PHONE_NUMBER_ID;
+const WHATSAPP_VERIFY_TOKEN = process.env.WHATSAPP_VERIFY_TOKEN;
+const WHATSAPP_APP_SECRET = process.env.WHATSAPP_APP_SECRET;
+const GRAPH_API_URL = `https://graph.facebook.com/${process.env.WHATSAPP_API_VERSION || 'v20.0'}`;
+const processedMessages = new Map<string, number>();
+
+const MEDIA_TYPES: Record<string, MessageType> = {
+  image: "image",
+  audio: "audio",
+  document: "document"
+};
+
+const OUTBOUND_MEDIA_TYPES: Partial<Record<MessageType, string>> = {
+  image: "image",
+  voice: "audio",
+  audio: "audio",
+  video: "video",
+  document: "document",
+  sticker: "sticker"
+};
+
+export const whatsappChannel: ChannelAdapter = {
+  name: "whatsapp",
+  sources: ["whatsapp"],
+  capabilities: { text: true, media: ["image", "voice", "audio", "video", "document", "sticker"] },
+  publicPaths: ['/whatsapphook'],
+  isConfigured: () => Boolean(WHATSAPP_TOKEN && WHATSAPP_PHONE_NUMBER_ID),
+  start: async (app) => mountWhatsAppRoutes(app),
+  stop: async () => { },
+  normalize: (raw: { message: any, profileName?: string }) => normalizeWhatsAppMessage(raw.message, raw.profileName),
+  sendText: (target, text) => sendWhatsAppMessage(target.platformChatId, text, target.replyToPlatformMessageId),
+  sendMedia: (target, media) => sendWhatsAppMedia(target.platformChatId, media, target.replyToPlatformMessageId)
+};
+
+// Очистка старых обработанных сообщений
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, timestamp] of processedMessages.entries()) {
+    if (now - timestamp > 3600000) {
+      processedMessages.delete(id);
+    }
+  }
+}, 600000);
+
+function mountWhatsAppRoutes(app: Hono) {
+  if (!WHATSAPP_APP_SECRET) {
+    console.error('WHATSAPP_APP_SECRET is not set: WhatsApp webhook requests will be rejected');
+  }
+
+  app.get('/whatsapphook', (c) => {
+    const challenge = verifyWhatsAppWebhook(
+      c.req.query('hub.mode'),
+      c.req.query('hub.verify_token'),
+      c.req.query('hub.challenge')
+    );
+
+    if (challenge === null) {
+      return c.text('Forbidden', 403);
+    }
+
+    return c.text(challenge, 200);
+  });
+
+  app.post('/whatsapphook', async (c) => {
+    const rawBody = await c.req.text();
+
+    if (!verifyMetaSignature(rawBody, c.req.header('X-Hub-Signature-256'), WHATSAPP_APP_SECRET)) {
+      console.error('Invalid WhatsApp webhook signature');
+      return c.text('Invalid signature', 401);
+    }
+
+    const body = parseWebhookBody(rawBody);
+    if (body === null) {
+      return c.text('Invalid JSON', 400);
+    }
+
+    // Meta ожидает быстрый ответ, поэтому обработка идет в фоне
+    processWhatsAppWebhook(body).catch(error => {
+      console.error('Error processing WhatsApp webhook:', error);
+    });
+
+    return c.text('Webhook received successfully', 200);
+  });
+}
+
+function verifyWhatsAppWebhook(mode?: string, token?: string, challenge?: string): string | null {
+  if (mode === 'subscribe' && token && token === WHATSAPP_VERIFY_TOKEN) {
+    return challenge ?? '';
+  }
+  return null;
+}
+
+async function processWhatsAppWebhook(body: any) {
+  if (body?.object !== 'whatsapp_business_account') {
+    return;
+  }
+
+  for (const entry of body.entry || []) {
+    for (const change of entry.changes || []) {
+      if (change.field !== 'messages') continue;
+
+      const value = change.value || {};
+      const contacts: any[] = value.contacts || [];
+
+      for (const status of value.statuses || []) {
+        const deliveryStatus = status.status === 'failed' ? 'failed' : status.status === 'sent' ? 'sent' : 'delivered';
+        const error = status.errors?.map((e: any) => e.title || e.message).join('; ');
+        await updateDeliveryStatus(status.id, deliveryStatus, error);
+      }
+
+      for (const message of value.messages || []) {
+        if (processedMessages.has(message.id)) {
+          console.log(`Skipping duplicate WhatsApp message ID: ${message.id} (already processed)`);
+          continue;
+        }
+        processedMessages.set(message.id, Date.now());
+
+        const contact = contacts.find(c => c.wa_id === message.from);
+        await handleInbound(whatsappChannel, { message, profileName: contact?.profile?.name });
+      }
+    }
+  }
+}
+
+async function normalizeWhatsAppMessage(message: any, profileName?: string): Promise<InboundMessage | null> {
+  const platformChatId = String(message.from);
+  const chat = await findOrCreateChat(platformChatId, "whatsapp", profileName);
+
+  if (!chat || !chat.id) {
+    console.error(`Failed to create/get chat for WhatsApp user: ${platformChatId}`);
+    return null;
+  }
+
+  let msgType: MessageType = "text";
+  let content = "";
+  let mediaFileId: string | undefined;
+
+  if (message.type === "text") {
+    content = message.text?.body || "";
+  } else if (MEDIA_TYPES[message.type]) {
+    const media = message[message.type];
+    msgType = MEDIA_TYPES[message.type];
+    content = media.caption || media.filename || (message.type === "audio" ? "Voice message" : "");
+    mediaFileId = await downloadWhatsAppMedia(media.id, message.id, media.mime_type, media.filename);
+  } else {
+    console.log(`Unsupported WhatsApp message type: ${message.type}`);
+    return null;
+  }
+
+  const replyToMessageId = await resolveReplyTo(message.context?.id, chat.id);
+
+  const msg: Message = {
+    source: "whatsapp",
+    platformMessageId: message.id,
+    chatId: chat.id,
+    type: msgType,
+    content: content,
+    ...(mediaFileId && { mediaFileId }),
+    isIncoming: true,
+    timestamp: new Date(Number(message.timestamp) * 1000),
+    senderId: platformChatId,
+    senderName: profileName || "Unknown",
+    responseMode: "manual",
+    ...(replyToMessageId && { replyToMessageId })
+  };
+
+  return { chat, message: msg, target: { platformChatId } };
+}
+
+async function downloadWhatsAppMedia(mediaId: string, messageId: string, mimeType?: string, filename?: string): Promise<string | undefined> {
+  try {
+    const metaResponse = await fetch(`${GRAPH_API_URL}/${mediaId}`, {
+      headers: { 'Authorization': `Bearer ${WHATSAPP_TOKEN}` }
+    });
+    if (!metaResponse.ok) {
+      throw new Error(`Failed to get media info: ${metaResponse.status} ${metaResponse.statusText}`);
+    }
+    const meta = await metaResponse.json();
+
+    const stored = await downloadMedia(meta.url, {
+      headers: { 'Authorization': `Bearer ${WHATSAPP_TOKEN}` }
+    }, {
+      fileName: filename || `wa_${messageId}`,
+      mimeType: mimeType || meta.mime_type
+    }, "whatsapp");
+    return stored.id;
+  } catch (error) {
+    console.error("Error downloading WhatsApp media:", error);
+    return undefined;
+  }
+}
+
+export async function sendWhatsAppMessage(to: string, text: string, replyTo?: string): Promise<string | null> {
+  return await postWhatsAppMessage(to, { type: 'text', text: { body: text } }, replyTo);
+}
+
+export async function sendWhatsAppMedia(to: string, media: OutboundMedia, replyTo?: string): Promise<string | null> {
+  const waType = OUTBOUND_MEDIA_TYPES[media.type] || 'document';
+  const mediaId = await uploadWhatsAppMedia(media);
+
+  // Подпись поддерживается только для изображений, видео и документов
+  const supportsCaption = ['image', 'video', 'document'].includes(waType);
+  const platformMessageId = await postWhatsAppMessage(to, {
+    type: waType,
+    [waType]: {
+      id: mediaId,
+      ...(supportsCaption && media.caption && { caption: media.caption }),
+      ...(waType === 'document' && { filename: media.fileName })
+    }
+  }, replyTo);
+
+  if (media.caption && !supportsCaption) {
+    await sendWhatsAppMessage(to, media.caption);
+  }
+
+  return platformMessageId;
+}
+
+async function uploadWhatsAppMedia(media: OutboundMedia): Promise<string> {
+  const formData = new FormData();
+  formData.append('messaging_product', 'whatsapp');
+  formData.append('type', media.mimeType);
+  formData.append('file', new Blob([media.file], { type: media.mimeType }), media.fileName);
+
+  const response = await fetch(`${GRAPH_API_URL}/${WHATSAPP_PHONE_NUMBER_ID}/media`, {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${WHATSAPP_TOKEN}` },
+    body: formData
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new PlatformApiError(`WhatsApp media upload error: ${response.status} ${errorText}`, response.status);
+  }
+
+  const result = await response.json();
+  return result.id;
+}
+
+async function postWhatsAppMessage(to: string, payload: Record<string, any>, replyTo?: string): Promise<string | null> {
+  try {
+    const response = await fetch(`${GRAPH_API_URL}/${WHATSAPP_PHONE_NUMBER_ID}/messages`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${WHATSAPP_TOKEN}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to,
+        ...payload,
+        ...(replyTo && { context: { message_id: replyTo } })
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new PlatformApiError(`WhatsApp API error: ${response.status} ${errorText}`, response.status);
+    }
+
+    const result = await response.json();
+    return result.messages?.[0]?.id ?? null;
+  } catch (error) {
+    console.error("Error sending WhatsApp message:", error);
+    throw error;
+  }
+}
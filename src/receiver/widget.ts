@@ -0,0 +1,220 @@
+import dotenv from 'dotenv';
+import { Context, Hono } from 'hono';
+import { cors } from 'hono/cors';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { Message } from '../models';
+import { findChatByPlatformId, findOrCreateChat, getMessages } from "../storage";
+import { publish } from '../api/realtime';
+import { createRateLimiter } from '../utils/rateLimit';
+import { getPublicMediaUrl } from '../utils/mediaUrl';
+import { ChannelAdapter, handleInbound, InboundMessage, OutboundMedia } from "./channel";
+
+dotenv.config();
+
+const WIDGET_SECRET = process.env.WIDGET_SECRET;
+const WIDGET_ORIGINS = (process.env.WIDGET_ORIGINS || '*').split(',').map(origin => origin.trim());
+const WIDGET_TRUST_PROXY = process.env.WIDGET_TRUST_PROXY === 'true';
+const MAX_MESSAGE_LENGTH = 4000;
+const HISTORY_LIMIT = 100;
+const isAllowed = createRateLimiter(
+  parseInt(process.env.WIDGET_RATE_LIMIT || '20'),
+  parseInt(process.env.WIDGET_RATE_WINDOW_MS || '60000')
+);
+
+interface WidgetInbound {
+  visitorId: string;
+  text: string;
+  name?: string;
+}
+
+export const widgetChannel: ChannelAdapter = {
+  name: "widget",
+  sources: ["widget"],
+  capabilities: { text: true, media: ["image", "voice", "audio", "video", "document"] },
+  publicPaths: ['/widget', '/widget.js'],
+  socket: {
+    path: '/widget/ws',
+    accept: (req) => {
+      const visitorId = verifyToken(new URL(req.url).searchParams.get('token'));
+      return visitorId ? { visitorId } : null;
+    },
+    open: (ws) => ws.subscribe(visitorTopic(ws.data.visitorId)),
+    close: (ws) => ws.unsubscribe(visitorTopic(ws.data.visitorId))
+  },
+  isConfigured: () => Boolean(WIDGET_SECRET),
+  start: async (app) => mountWidgetRoutes(app),
+  stop: async () => { },
+  normalize: (raw: WidgetInbound) => normalizeWidgetMessage(raw),
+  sendText: async (target, text) => sendWidgetMessage(target.platformChatId, text),
+  sendMedia: (target, media) => sendWidgetMedia(target.platformChatId, media)
+};
+
+function visitorTopic(visitorId: string): string {
+  return `widget:${visitorId}`;
+}
+
+function signVisitor(visitorId: string): string {
+  return createHmac('sha256', WIDGET_SECRET!).update(visitorId).digest('hex');
+}
+
+function createToken(visitorId: string): string {
+  return `${visitorId}.${signVisitor(visitorId)}`;
+}
+
+function verifyToken(token?: string | null): string | null {
+  if (!token) return null;
+
+  const [visitorId, signature] = token.split('.');
+  if (!visitorId || !signature) return null;
+
+  const expected = signVisitor(visitorId);
+  if (expected.length !== signature.length) return null;
+
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(signature)) ? visitorId : null;
+}
+
+// Заголовкам прокси можно верить, только если сервис доступен исключительно через прокси, иначе их подделывают
+function clientIp(c: Context): string {
+  if (WIDGET_TRUST_PROXY) {
+    const forwarded = c.req.header('X-Forwarded-For')?.split(',')[0].trim() || c.req.header('X-Real-IP');
+    if (forwarded) return forwarded;
+  }
+  // c.env — сервер Bun (см. startRealtimeHttpServer)
+  return c.env?.requestIP?.(c.req.raw)?.address || 'unknown';
+}
+
+function mountWidgetRoutes(app: Hono) {
+  app.use('/widget/*', cors({
+    origin: WIDGET_ORIGINS.length === 1 ? WIDGET_ORIGINS[0] : WIDGET_ORIGINS,
+    allowMethods: ['GET', 'POST', 'OPTIONS'],
+    allowHeaders: ['Content-Type'],
+    maxAge: 86400
+  }));
+
+  app.get('/widget.js', async (c) => {
+    const script = await Bun.file(new URL('./widgetClient.js', import.meta.url)).text();
+    c.header('Content-Type', 'application/javascript; charset=utf-8');
+    c.header('Cache-Control', 'public, max-age=3600');
+    return c.body(script);
+  });
+
+  app.post('/widget/session', async (c) => {
+    if (!isAllowed(`session:${clientIp(c)}`)) {
+      return c.json({ success: false, message: 'Too many requests' }, 429);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+    const visitorId = randomUUID();
+    const chat = await findOrCreateChat(visitorId, "widget", body.name || "Посетитель сайта");
+
+    if (!chat) {
+      return c.json({ success: false, message: 'Failed to create session' }, 500);
+    }
+
+    return c.json({ success: true, token: createToken(visitorId) });
+  });
+
+  app.get('/widget/messages', async (c) => {
+    const visitorId = verifyToken(c.req.query('token'));
+    if (!visitorId) {
+      return c.json({ success: false, message: 'Invalid session' }, 401);
+    }
+
+    // Чат, удаленный по запросу на удаление данных, не создается заново при опросе
+    const chat = await findChatByPlatformId(visitorId);
+    if (!chat?.id) {
+      return c.json({ success: true, messages: [] });
+    }
+
+    // С before выбираются ближайшие к курсору, то есть последние сообщения переписки
+    const messages = await getMessages(chat.id, { limit: HISTORY_LIMIT, before: { date: new Date(Date.now() + 60000) } });
+    return c.json({
+      success: true,
+      messages: messages.items.map((item: any) => ({
+        id: item.id,
+        text: item.content,
+        isIncoming: item.isIncoming,
+        senderName: item.senderName,
+        timestamp: item.timestamp
+      }))
+    });
+  });
+
+  app.post('/widget/messages', async (c) => {
+    const body = await c.req.json().catch(() => ({}));
+    const visitorId = verifyToken(body.token);
+    if (!visitorId) {
+      return c.json({ success: false, message: 'Invalid session' }, 401);
+    }
+
+    if (!isAllowed(`message:${visitorId}`) || !isAllowed(`message:${clientIp(c)}`)) {
+      return c.json({ success: false, message: 'Too many requests' }, 429);
+    }
+
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text || text.length > MAX_MESSAGE_LENGTH) {
+      return c.json({ success: false, message: `Text is required and must be shorter than ${MAX_MESSAGE_LENGTH} characters` }, 400);
+    }
+
+    // Автоответ придет посетителю через WebSocket, поэтому не задерживаем ответ на запрос
+    handleInbound(widgetChannel, { visitorId, text, name: body.name }).catch(error => {
+      console.error('Error processing widget message:', error);
+    });
+
+    return c.json({ success: true });
+  });
+}
+
+async function normalizeWidgetMessage(raw: WidgetInbound): Promise<InboundMessage | null> {
+  const chat = await findOrCreateChat(raw.visitorId, "widget", raw.name);
+
+  if (!chat || !chat.id) {
+    console.error(`Failed to create/get chat for widget visitor: ${raw.visitorId}`);
+    return null;
+  }
+
+  const msg: Message = {
+    source: "widget",
+    platformMessageId: `widget_${randomUUID()}`,
+    chatId: chat.id,
+    type: "text",
+    content: raw.text,
+    isIncoming: true,
+    timestamp: new Date(),
+    senderId: raw.visitorId,
+    senderName: chat.name || "Посетитель сайта",
+    responseMode: "manual"
+  };
+
+  return { chat, message: msg, target: { platformChatId: raw.visitorId } };
+}
+
+export function sendWidgetMessage(visitorId: string, text: string, attachment: Record<string, string> = {}): string {
+  const id = `widget_${randomUUID()}`;
+
+  publish(visitorTopic(visitorId), {
+    type: 'message',
+    message: {
+      id,
+      text,
+      ...attachment,
+      isIncoming: false,
+      timestamp: new Date().toISOString()
+    }
+  });
+
+  return id;
+}
+
+export async function sendWidgetMedia(visitorId: string, media: OutboundMedia): Promise<string> {
+  const mediaUrl = await getPublicMediaUrl(media.mediaFileId);
+  if (!mediaUrl) {
+    throw new Error(`Media record with ID ${media.mediaFileId} not found`);
+  }
+
+  return sendWidgetMessage(visitorId, media.caption || "", {
+    mediaUrl,
+    mediaType: media.type,
+    fileName: media.fileName
+  });
+}
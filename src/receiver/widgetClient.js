@@ -0,0 +1,155 @@
+// Встраиваемый чат-виджет: <script src="https://your-host/widget.js" async></script>
+(function () {
+  if (window.__autoreplyWidget) return;
+  window.__autoreplyWidget = true;
+
+  var script = document.currentScript;
+  var baseUrl = new URL(script ? script.src : '/widget.js', window.location.href).origin;
+  var title = (script && script.getAttribute('data-title')) || 'Чат с нами';
+  var storageKey = 'autoreply_widget_token';
+  var token = localStorage.getItem(storageKey);
+  var socket = null;
+  var seen = {};
+
+  var style = document.createElement('style');
+  style.textContent = [
+    '.arw-button{position:fixed;right:20px;bottom:20px;width:56px;height:56px;border-radius:50%;border:none;background:#2563eb;color:#fff;font-size:24px;cursor:pointer;box-shadow:0 4px 12px rgba(0,0,0,.2);z-index:2147483000}',
+    '.arw-panel{position:fixed;right:20px;bottom:88px;width:320px;max-width:calc(100vw - 40px);height:420px;display:none;flex-direction:column;background:#fff;border-radius:12px;box-shadow:0 8px 24px rgba(0,0,0,.2);font:14px sans-serif;overflow:hidden;z-index:2147483000}',
+    '.arw-panel.arw-open{display:flex}',
+    '.arw-header{padding:12px;background:#2563eb;color:#fff;font-weight:bold}',
+    '.arw-messages{flex:1;overflow-y:auto;padding:12px;display:flex;flex-direction:column;gap:6px}',
+    '.arw-msg{max-width:80%;padding:8px 10px;border-radius:10px;white-space:pre-wrap;word-wrap:break-word}',
+    '.arw-in{align-self:flex-end;background:#2563eb;color:#fff}',
+    '.arw-out{align-self:flex-start;background:#f1f5f9;color:#0f172a}',
+    '.arw-form{display:flex;border-top:1px solid #e2e8f0}',
+    '.arw-input{flex:1;border:none;padding:12px;font:inherit;outline:none}',
+    '.arw-send{border:none;background:none;color:#2563eb;padding:0 12px;cursor:pointer;font:inherit}'
+  ].join('');
+  document.head.appendChild(style);
+
+  var button = document.createElement('button');
+  button.className = 'arw-button';
+  button.setAttribute('aria-label', title);
+  button.textContent = '💬';
+
+  var panel = document.createElement('div');
+  panel.className = 'arw-panel';
+  panel.innerHTML = '<div class="arw-header"></div><div class="arw-messages"></div>' +
+    '<form class="arw-form"><input class="arw-input" placeholder="Сообщение..." maxlength="4000"/><button class="arw-send" type="submit">➤</button></form>';
+  panel.querySelector('.arw-header').textContent = title;
+
+  var list = panel.querySelector('.arw-messages');
+  var form = panel.querySelector('.arw-form');
+  var input = panel.querySelector('.arw-input');
+
+  document.body.appendChild(panel);
+  document.body.appendChild(button);
+
+  function render(message) {
+    if (message.id && seen[message.id]) return;
+    if (message.id) seen[message.id] = true;
+
+    var item = document.createElement('div');
+    item.className = 'arw-msg ' + (message.isIncoming ? 'arw-in' : 'arw-out');
+    item.textContent = message.text;
+
+    if (message.mediaUrl) {
+      var attachment;
+      if (message.mediaType === 'image') {
+        attachment = document.createElement('img');
+        attachment.src = message.mediaUrl;
+        attachment.style.maxWidth = '100%';
+      } else if (message.mediaType === 'voice' || message.mediaType === 'audio') {
+        attachment = document.createElement('audio');
+        attachment.src = message.mediaUrl;
+        attachment.controls = true;
+      } else {
+        attachment = document.createElement('a');
+        attachment.href = message.mediaUrl;
+        attachment.target = '_blank';
+        attachment.textContent = message.fileName || 'Файл';
+      }
+      attachment.style.display = 'block';
+      item.appendChild(attachment);
+    }
+    list.appendChild(item);
+    list.scrollTop = list.scrollHeight;
+  }
+
+  function ensureSession() {
+    if (token) return Promise.resolve(token);
+
+    return fetch(baseUrl + '/widget/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}'
+    })
+      .then(function (res) { return res.json(); })
+      .then(function (data) {
+        if (!data.success) throw new Error(data.message);
+        token = data.token;
+        localStorage.setItem(storageKey, token);
+        return token;
+      });
+  }
+
+  function loadHistory() {
+    return fetch(baseUrl + '/widget/messages?token=' + encodeURIComponent(token))
+      .then(function (res) {
+        if (res.status === 401) {
+          localStorage.removeItem(storageKey);
+          token = null;
+          return ensureSession().then(function () { return { messages: [] }; });
+        }
+        return res.json();
+      })
+      .then(function (data) { (data.messages || []).forEach(render); });
+  }
+
+  function connect() {
+    var wsUrl = baseUrl.replace(/^http/, 'ws') + '/widget/ws?token=' + encodeURIComponent(token);
+    socket = new WebSocket(wsUrl);
+    socket.onmessage = function (event) {
+      var data = JSON.parse(event.data);
+      if (data.type === 'message') render(data.message);
+    };
+    socket.onclose = function () {
+      setTimeout(connect, 5000);
+    };
+  }
+
+  var started = false;
+  function start() {
+    if (started) return;
+    started = true;
+    ensureSession().then(loadHistory).then(connect).catch(function (error) {
+      started = false;
+      console.error('Chat widget error:', error);
+    });
+  }
+
+  button.addEventListener('click', function () {
+    panel.classList.toggle('arw-open');
+    if (panel.classList.contains('arw-open')) {
+      start();
+      input.focus();
+    }
+  });
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    var text = input.value.trim();
+    if (!text || !token) return;
+
+    input.value = '';
+    render({ text: text, isIncoming: true });
+
+    fetch(baseUrl + '/widget/messages', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: token, text: text })
+    }).catch(function (error) {
+      console.error('Chat widget error:', error);
+    });
+  });
+})();
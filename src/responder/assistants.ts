@@ -0,0 +1,130 @@
+import dotenv from 'dotenv';
+import { AssistantTool } from 'openai/resources/beta/assistants';
+import { Chat, Message } from '../models';
+import { getChatById, saveChat } from '../storage';
+import { executeTool, getToolSpecs, hasTool } from '../tools';
+import { client } from './client';
+import { ResponderProvider } from './types';
+
+dotenv.config();
+
+const OPENAI_ASSISTANT_ID = process.env.OPENAI_ASSISTANT_ID;
+const RUN_TIMEOUT_MS = 30000;
+
+// Инструменты, настроенные у самого ассистента; читаются один раз за время работы сервиса
+let assistantTools: Promise<AssistantTool[]> | undefined;
+
+// История переписки хранится в треде OpenAI, ID треда — в chats.openAIThreadId
+export const assistantsProvider: ResponderProvider = {
+  name: 'assistants',
+  senderId: OPENAI_ASSISTANT_ID ?? 'OpenAI',
+  senderName: 'OpenAI Assistant',
+  reply: (chat, message) => reply(chat, message)
+};
+
+async function reply(chat: Chat, message: Message): Promise<string> {
+  if (!OPENAI_ASSISTANT_ID) {
+    throw new Error("OPENAI_ASSISTANT_ID is not defined in environment");
+  }
+
+  const threadId = chat.openAIThreadId || await createThread(chat);
+
+  await client.beta.threads.messages.create(threadId, {
+    role: "user",
+    content: message.content
+  });
+
+  const tools = await runTools();
+  const run = await client.beta.threads.runs.create(threadId, {
+    assistant_id: OPENAI_ASSISTANT_ID,
+    ...(tools && { tools })
+  });
+
+  try {
+    let runStatus = await client.beta.threads.runs.retrieve(threadId, run.id);
+    let startTime = Date.now();
+
+    while (runStatus.status !== "completed") {
+      if (["failed", "cancelled", "expired", "incomplete"].includes(runStatus.status)) {
+        throw new Error(`Run ${run.id} failed with status ${runStatus.status}`);
+      }
+
+      if (runStatus.status === "requires_action" && runStatus.required_action) {
+        const toolOutputs = [];
+        for (const toolCall of runStatus.required_action.submit_tool_outputs.tool_calls) {
+          toolOutputs.push({ tool_call_id: toolCall.id, output: await executeTool(toolCall.function, { chat, message }) });
+        }
+        runStatus = await client.beta.threads.runs.submitToolOutputs(threadId, run.id, { tool_outputs: toolOutputs });
+        // Время выполнения инструментов не входит в ожидание ответа модели
+        startTime = Date.now();
+        continue;
+      }
+
+      if (Date.now() - startTime > RUN_TIMEOUT_MS) {
+        throw new Error("Response timed out after 30 seconds");
+      }
+
+      await new Promise(resolve => setTimeout(resolve, 1000));
+      runStatus = await client.beta.threads.runs.retrieve(threadId, run.id);
+    }
+  } catch (error) {
+    // Пока запуск активен, в тред нельзя добавить следующее сообщение клиента
+    await client.beta.threads.runs.cancel(threadId, run.id).catch(() => { });
+    throw error;
+  }
+
+  const messages = await client.beta.threads.messages.list(threadId, {
+    order: "desc",
+    limit: 1
+  });
+
+  if (messages.data.length === 0 || messages.data[0].role !== "assistant") {
+    throw new Error("No assistant response found");
+  }
+
+  const content = messages.data[0].content[0];
+  if (content.type !== "text") {
+    throw new Error(`Unexpected content type: ${content.type}`);
+  }
+
+  return content.text.value;
+}
+
+// Параметр tools запуска заменяет инструменты ассистента, поэтому к реестру добавляются собственные
+// инструменты ассистента (file_search, code_interpreter и функции, которых нет в реестре)
+async function runTools(): Promise<AssistantTool[] | undefined> {
+  const specs = getToolSpecs();
+  if (!specs.length) {
+    return undefined;
+  }
+
+  assistantTools ??= client.beta.assistants.retrieve(OPENAI_ASSISTANT_ID!).then(assistant => assistant.tools);
+  const own = await assistantTools.catch(error => {
+    assistantTools = undefined;
+    throw error;
+  });
+  return [...own.filter(tool => tool.type !== 'function' || !hasTool(tool.function.name)), ...specs];
+}
+
+async function createThread(chat: Chat): Promise<string> {
+  const thread = await client.beta.threads.create();
+  const current = await getChatById(chat.id!) ?? chat;
+  current.openAIThreadId = thread.id;
+  await saveChat(current);
+  chat.openAIThreadId = thread.id;
+  console.log(`Created new thread ${thread.id} for chat ${chat.id}`);
+  return thread.id;
+}
+
+// Удаление треда ассистента вместе с историей переписки; false — тред уже не существует
+export async function deleteThread(threadId: string): Promise<boolean> {
+  try {
+    await client.beta.threads.del(threadId);
+    return true;
+  } catch (error: any) {
+    if (error?.status === 404) {
+      return false;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,18 @@
+import OpenAI from 'openai';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Любой OpenAI-совместимый сервер: Ollama, llama.cpp, vLLM или заглушка src/responder/stub.ts
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL || undefined;
+// Локальным серверам ключ обычно не нужен, но клиент OpenAI требует непустое значение
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY || (OPENAI_BASE_URL ? 'local' : undefined);
+
+if (!OPENAI_API_KEY) {
+  throw new Error('OPENAI_API_KEY не установлен в переменных окружения');
+}
+
+export const client = new OpenAI({
+  apiKey: OPENAI_API_KEY,
+  baseURL: OPENAI_BASE_URL
+});
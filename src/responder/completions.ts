@@ -0,0 +1,84 @@
+import dotenv from 'dotenv';
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { Chat, Message } from '../models';
+import { getMessages } from '../storage';
+import { executeTool, getToolSpecs } from '../tools';
+import { client } from './client';
+import { ResponderProvider } from './types';
+
+dotenv.config();
+
+const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+const OPENAI_SYSTEM_PROMPT = process.env.OPENAI_SYSTEM_PROMPT || '';
+// Сколько предыдущих сообщений чата передается модели
+const RESPONDER_HISTORY_LIMIT = parseInt(process.env.RESPONDER_HISTORY_LIMIT || '20');
+// Сколько раз подряд модель может вызвать инструменты, прежде чем ответить
+const MAX_TOOL_ROUNDS = 5;
+
+// История переписки собирается из messages, поэтому у провайдера ничего не хранится
+export const chatCompletionsProvider: ResponderProvider = {
+  name: 'chat',
+  senderId: OPENAI_MODEL,
+  senderName: 'AI Assistant',
+  reply: (chat, message) => reply(chat, message)
+};
+
+async function reply(chat: Chat, message: Message): Promise<string> {
+  const messages: ChatCompletionMessageParam[] = [
+    ...(OPENAI_SYSTEM_PROMPT ? [{ role: 'system' as const, content: OPENAI_SYSTEM_PROMPT }] : []),
+    ...await buildHistory(message),
+    { role: 'user', content: message.content }
+  ];
+
+  const tools = getToolSpecs();
+
+  for (let round = 0; ; round++) {
+    // На последнем круге инструменты не передаются, чтобы модель ответила текстом
+    const withTools = tools.length > 0 && round < MAX_TOOL_ROUNDS;
+    const completion = await client.chat.completions.create({
+      model: OPENAI_MODEL,
+      messages,
+      ...(withTools && { tools })
+    });
+
+    const choice = completion.choices[0]?.message;
+    if (withTools && choice?.tool_calls?.length) {
+      messages.push(choice);
+      for (const toolCall of choice.tool_calls) {
+        const output = await executeTool(toolCall.function, { chat, message });
+        messages.push({ role: 'tool', tool_call_id: toolCall.id, content: output });
+      }
+      continue;
+    }
+
+    if (!choice?.content) {
+      throw new Error(`Model ${OPENAI_MODEL} returned an empty response for chat ${chat.id}`);
+    }
+    return choice.content;
+  }
+}
+
+// Сообщения до отвечаемого: удаленные, обезличенные и недоставленные пропускаются
+async function buildHistory(message: Message): Promise<ChatCompletionMessageParam[]> {
+  if (RESPONDER_HISTORY_LIMIT <= 0) {
+    return [];
+  }
+
+  const page = await getMessages(message.chatId, {
+    limit: RESPONDER_HISTORY_LIMIT,
+    before: { date: message.timestamp, id: message.id }
+  });
+
+  return page.items
+    .filter(item => !item.deleted && !item.redactedAt && item.status !== 'failed')
+    .map(item => ({ role: item.isIncoming ? 'user' as const : 'assistant' as const, content: historyContent(item) }))
+    .filter(item => item.content);
+}
+
+function historyContent(message: Message): string {
+  if (!message.transcription) {
+    return message.content;
+  }
+  const label = message.type === 'image' ? 'Содержание изображения' : 'Распознанный текст';
+  return [message.content, `[${label}: ${message.transcription}]`].filter(Boolean).join('\n\n');
+}
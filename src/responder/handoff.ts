@@ -0,0 +1,103 @@
+import dotenv from 'dotenv';
+import { Escalation } from './types';
+
+dotenv.config();
+
+const DEFAULT_KEYWORDS = 'оператор,живой человек,живого человека,с человеком,менеджер,operator,human agent,real person';
+const DEFAULT_NEGATIVE_WORDS = 'ужас,отвратител,кошмар,безобраз,обман,мошенни,развод,жалоб,разочарован,бесит,достали,хамств,'
+  + 'верните деньги,худш,отстой,terrible,awful,scam,worst,refund,angry';
+
+// Пустое значение переменной отключает правило
+function parseList(value: string): string[] {
+  return value.split(',').map(item => normalize(item.trim())).filter(Boolean);
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/ё/g, 'е').replace(/\s+/g, ' ');
+}
+
+const HANDOFF_KEYWORDS = parseList(process.env.HANDOFF_KEYWORDS ?? DEFAULT_KEYWORDS);
+const HANDOFF_NEGATIVE_WORDS = parseList(process.env.HANDOFF_NEGATIVE_WORDS ?? DEFAULT_NEGATIVE_WORDS);
+const HANDOFF_SENTIMENT_THRESHOLD = parseInt(process.env.HANDOFF_SENTIMENT_THRESHOLD || '2');
+const HANDOFF_MAX_FAILURES = parseInt(process.env.HANDOFF_MAX_FAILURES || '2');
+const HANDOFF_MARKER = process.env.HANDOFF_MARKER ?? '[HANDOFF]';
+
+// Сообщение клиенту при передаче чата оператору; пустое — ничего не отправлять
+export const HANDOFF_MESSAGE = process.env.HANDOFF_MESSAGE ?? 'Передаю ваш вопрос оператору, он ответит в ближайшее время.';
+
+const failures = new Map<string, number>();
+const requests = new Map<string, string>();
+
+// Фраза ищется с начала слова, поэтому "оператор" находит и "оператора", но не "кооператор"
+function containsPhrase(text: string, phrase: string): boolean {
+  for (let index = text.indexOf(phrase); index >= 0; index = text.indexOf(phrase, index + 1)) {
+    if (index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Грубая оценка раздражения: слова из словаря плюс балл за крик (капс или "!!!")
+function negativityScore(text: string): number {
+  const normalized = normalize(text);
+  let score = HANDOFF_NEGATIVE_WORDS.filter(word => containsPhrase(normalized, word)).length;
+
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  const shouting = letters.length >= 10 && letters.replace(/[^\p{Lu}]/gu, '').length / letters.length > 0.7;
+  if (shouting || /!{3,}/.test(text)) {
+    score++;
+  }
+  return score;
+}
+
+// Проверка слов клиента до обращения к модели: просьба позвать человека или раздраженный тон
+export function detectEscalation(text: string): Escalation | null {
+  const normalized = normalize(text);
+  const keyword = HANDOFF_KEYWORDS.find(phrase => containsPhrase(normalized, phrase));
+  if (keyword) {
+    return { rule: 'keyword', detail: keyword };
+  }
+
+  if (HANDOFF_SENTIMENT_THRESHOLD > 0) {
+    const score = negativityScore(text);
+    if (score >= HANDOFF_SENTIMENT_THRESHOLD) {
+      return { rule: 'sentiment', detail: `оценка негатива ${score}` };
+    }
+  }
+  return null;
+}
+
+// Вызывается инструментом request_handoff во время ответа ассистента
+export function requestHandoff(chatId: string, reason: string) {
+  requests.set(chatId, reason);
+}
+
+// Ассистент просит оператора вызовом request_handoff или маркером HANDOFF_MARKER в тексте ответа
+export function takeHandoffRequest(chatId: string, answer = ''): Escalation | null {
+  const reason = requests.get(chatId);
+  requests.delete(chatId);
+
+  if (reason !== undefined) {
+    return { rule: 'assistant', detail: reason || 'причина не указана' };
+  }
+  if (HANDOFF_MARKER && answer.includes(HANDOFF_MARKER)) {
+    return { rule: 'assistant', detail: `маркер ${HANDOFF_MARKER} в ответе` };
+  }
+  return null;
+}
+
+// Ответ без результата (ошибка модели или необработанное вложение); после HANDOFF_MAX_FAILURES подряд чат передается оператору
+export function recordFailure(chatId: string): Escalation | null {
+  const count = (failures.get(chatId) || 0) + 1;
+  if (HANDOFF_MAX_FAILURES > 0 && count >= HANDOFF_MAX_FAILURES) {
+    failures.delete(chatId);
+    return { rule: 'failures', detail: `ошибок подряд: ${count}` };
+  }
+  failures.set(chatId, count);
+  return null;
+}
+
+export function resetFailures(chatId: string) {
+  failures.delete(chatId);
+}
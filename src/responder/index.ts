@@ -0,0 +1,284 @@
+import { toFile } from 'openai';
+import { Chat, Message } from '../models';
+import { convertAudioInMemory } from '../utils/oggToMP3';
+import dotenv from 'dotenv';
+import { getMediaFile, getMessage, updateMessage } from "../storage";
+import { assistantsProvider } from './assistants';
+import { client } from './client';
+import { chatCompletionsProvider } from './completions';
+import { detectEscalation, recordFailure, resetFailures, takeHandoffRequest } from './handoff';
+import { AIResponse, ResponderProvider } from './types';
+
+export { deleteThread } from './assistants';
+export * from './types';
+
+dotenv.config();
+
+const DOCUMENT_TEXT_LIMIT = 8000;
+const TEXT_DOCUMENT_EXTENSIONS = ['txt', 'csv', 'json', 'xml', 'md', 'html', 'htm', 'yaml', 'yml', 'log'];
+
+const PROVIDERS: Record<string, ResponderProvider> = {
+  assistants: assistantsProvider,
+  chat: chatCompletionsProvider
+};
+
+const RESPONDER_PROVIDER = process.env.RESPONDER_PROVIDER || 'assistants';
+const provider = PROVIDERS[RESPONDER_PROVIDER];
+
+if (!provider) {
+  throw new Error(`Неизвестный RESPONDER_PROVIDER: ${RESPONDER_PROVIDER} (доступны: ${Object.keys(PROVIDERS).join(', ')})`);
+}
+
+export const responderName = provider.name;
+export const responderSenderId = provider.senderId;
+export const responderSenderName = provider.senderName;
+
+// Сообщение клиента, приведенное к тексту для модели
+interface PreparedMessage {
+  content: string;
+  // Слова клиента без цитаты и описаний вложений — по ним проверяются правила передачи оператору
+  text: string;
+  // Расшифровка или описание вложения, которые клиент видит перед ответом
+  note?: string;
+  // Ответ клиенту, если вложение не удалось обработать
+  failure?: string;
+}
+
+// Ответ на одно или несколько сообщений клиента подряд: они объединяются в один запрос к модели.
+// Если сработало правило передачи оператору (src/responder/handoff.ts), в ответе есть escalation
+export async function getAIResponse(messages: Message[], chat: Chat): Promise<AIResponse> {
+  const chatId = chat.id!;
+  try {
+    const prepared: PreparedMessage[] = [];
+    for (const message of messages) {
+      prepared.push(await prepareMessage(message));
+    }
+
+    const escalation = detectEscalation(prepared.map(item => item.text).join("\n"));
+    if (escalation) {
+      return { content: "", escalation };
+    }
+
+    const parts = prepared.filter(item => !item.failure);
+    if (!parts.length) {
+      return failureResponse(chatId, prepared[0].failure!);
+    }
+
+    // Провайдер берет историю до первого сообщения пачки, остальные уже вошли в content
+    const content = parts.map(item => item.content).join("\n\n");
+    const answer = await provider.reply(chat, { ...messages[0], type: "text", content });
+
+    const handoff = takeHandoffRequest(chatId, answer);
+    if (handoff) {
+      return { content: answer, escalation: handoff };
+    }
+    resetFailures(chatId);
+
+    const notes = parts.flatMap(item => item.note ? [item.note] : []);
+    return { content: notes.length ? `${notes.join("\n\n")}\n\n🤖 Ответ: ${answer}` : answer };
+  } catch (error) {
+    console.error(`Responder ${provider.name} error:`, error);
+    // Ассистент мог запросить оператора до ошибки
+    const handoff = takeHandoffRequest(chatId);
+    return handoff ? { content: "", escalation: handoff } : failureResponse(chatId, "Извините, произошла ошибка при обработке запроса.");
+  }
+}
+
+function failureResponse(chatId: string, content: string): AIResponse {
+  const escalation = recordFailure(chatId);
+  return escalation ? { content, failed: true, escalation } : { content, failed: true };
+}
+
+async function prepareMessage(message: Message): Promise<PreparedMessage> {
+  let prepared: PreparedMessage;
+
+  if (message.type === "voice" || message.type === "audio" || message.type === "video_note") {
+    console.log("Processing audio message");
+    prepared = await prepareAudioMessage(message);
+  } else if (message.type === "image") {
+    console.log("Processing image message");
+    prepared = await prepareImageMessage(message);
+  } else if (message.type === "document") {
+    console.log("Processing document message");
+    prepared = await prepareDocumentMessage(message);
+  } else {
+    // Геолокация, контакт, стикер и видео уже представлены текстом в content
+    prepared = { content: message.content, text: message.content };
+  }
+
+  return prepared.failure ? prepared : { ...prepared, content: await withQuote(message, prepared.content) };
+}
+
+// Если клиент цитирует сообщение, ассистент получает цитату вместе с текстом
+async function withQuote(message: Message, content: string): Promise<string> {
+  if (!message.replyToMessageId) return content;
+
+  const quoted = await getMessage(message.replyToMessageId).catch(error => {
+    console.error(`Failed to load quoted message ${message.replyToMessageId}:`, error);
+    return null;
+  });
+  if (!quoted?.content) return content;
+
+  const author = quoted.isIncoming ? "клиента" : "ассистента";
+  return `[Ответ на сообщение ${author}: "${quoted.content}"]\n\n${content}`;
+}
+
+// Расшифровка сохраняется в сообщении, чтобы по ней работал поиск
+async function saveTranscription(message: Message, transcription: string) {
+  if (!message.id) return;
+  try {
+    await updateMessage(message.id, { transcription });
+  } catch (error) {
+    console.error(`Error saving transcription for message ${message.id}:`, error);
+  }
+}
+
+function failed(failure: string): PreparedMessage {
+  return { content: "", text: "", failure };
+}
+
+async function prepareImageMessage(message: Message): Promise<PreparedMessage> {
+  if (!message.mediaFileId) {
+    return failed("Изображение не найдено.");
+  }
+
+  try {
+    const media = await getMediaFile(message.mediaFileId);
+    if (!media) {
+      console.log(`Media record ${message.mediaFileId} not found`);
+      return failed("Ошибка доступа к файлу.");
+    }
+
+    const contentType = media.mimeType;
+    const arrayBuffer = await media.file.arrayBuffer();
+    const base64Image = Buffer.from(arrayBuffer).toString('base64');
+    const dataUrl = `data:${contentType || 'image/jpeg'};base64,${base64Image}`;
+
+    const visionResponse = await client.chat.completions.create({
+      model: process.env.OPENAI_VISION_MODEL || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      messages: [
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: message.content || "Что на этом изображении?"
+            },
+            {
+              type: "image_url",
+              image_url: {
+                url: dataUrl
+              }
+            }
+          ]
+        }
+      ],
+      max_tokens: 500
+    });
+
+    const imageDescription = visionResponse.choices[0].message.content || "Не удалось проанализировать изображение.";
+    if (visionResponse.choices[0].message.content) {
+      await saveTranscription(message, imageDescription);
+    }
+
+    return {
+      content: message.content
+        ? `${message.content}\n\n[Содержание изображения: ${imageDescription}]`
+        : `[Содержание изображения: ${imageDescription}]`,
+      text: message.content,
+      note: `📷 Описание изображения: "${imageDescription}"`
+    };
+  } catch (error) {
+    console.error("Error getting image from storage:", error);
+    return failed("Не удалось получить изображение из хранилища.");
+  }
+}
+
+async function prepareAudioMessage(message: Message): Promise<PreparedMessage> {
+  if (!message.mediaFileId) {
+    return failed("Аудиофайл не найден.");
+  }
+
+  try {
+    const media = await getMediaFile(message.mediaFileId);
+    if (!media) {
+      console.log(`Media record ${message.mediaFileId} not found`);
+      return failed("Ошибка доступа к аудиофайлу.");
+    }
+
+    const originalBuffer = Buffer.from(await media.file.arrayBuffer());
+    const contentType = media.mimeType;
+    const extension = media.fileName.split('.').pop() || 'mp4';
+    const audioFile = contentType.includes('ogg') || extension === 'ogg'
+      ? await toFile(await convertAudioInMemory(originalBuffer), 'audio.mp3', { type: 'audio/mp3' })
+      : await toFile(originalBuffer, `audio.${extension}`, { type: contentType || 'audio/mp4' });
+
+    let transcribedText: string;
+    try {
+      const transcription = await client.audio.transcriptions.create({
+        model: process.env.OPENAI_AUDIO_MODEL || 'whisper-1',
+        file: audioFile
+      });
+      transcribedText = transcription.text;
+    } catch (error) {
+      console.error("Transcription error:", error);
+      return failed("Не удалось распознать аудио.");
+    }
+
+    if (!transcribedText || transcribedText.trim() === "") {
+      return failed("Не удалось распознать текст в аудиосообщении.");
+    }
+    await saveTranscription(message, transcribedText);
+
+    return {
+      content: transcribedText,
+      text: transcribedText,
+      note: `📝 Распознанный текст: "${transcribedText}"`
+    };
+  } catch (error) {
+    console.error("Error processing audio from storage:", error);
+    return failed("Произошла ошибка при обработке аудиосообщения.");
+  }
+}
+
+async function prepareDocumentMessage(message: Message): Promise<PreparedMessage> {
+  const documentText = await extractDocumentText(message);
+
+  return {
+    content: documentText
+      ? `${message.content}\n\n[Содержимое документа:\n${documentText}]`
+      : `[Документ: ${message.content}]`,
+    text: message.content
+  };
+}
+
+// Извлекает текст только из текстовых форматов, бинарные документы передаются названием файла
+async function extractDocumentText(message: Message): Promise<string | null> {
+  if (!message.mediaFileId) {
+    return null;
+  }
+
+  try {
+    const media = await getMediaFile(message.mediaFileId);
+    if (!media) {
+      return null;
+    }
+
+    const extension = media.fileName.split('.').pop()?.toLowerCase() || '';
+    const contentType = media.mimeType;
+    const isText = contentType.startsWith('text/')
+      || contentType.includes('json')
+      || contentType.includes('xml')
+      || TEXT_DOCUMENT_EXTENSIONS.includes(extension);
+
+    if (!isText) {
+      return null;
+    }
+
+    const text = (await media.file.text()).trim();
+    return text.length > DOCUMENT_TEXT_LIMIT ? `${text.slice(0, DOCUMENT_TEXT_LIMIT)}…` : text;
+  } catch (error) {
+    console.error("Error extracting document text:", error);
+    return null;
+  }
+}
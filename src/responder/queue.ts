@@ -0,0 +1,74 @@
+import dotenv from 'dotenv';
+import { Message } from '../models';
+
+dotenv.config();
+
+// Сколько ждать следующего сообщения клиента, прежде чем отвечать на накопленные
+const RESPONDER_DEBOUNCE_MS = parseInt(process.env.RESPONDER_DEBOUNCE_MS || '2000');
+
+export type ReplyHandler = (messages: Message[]) => Promise<void>;
+
+interface ChatQueue {
+  messages: Message[];
+  handler: ReplyHandler;
+  timer?: ReturnType<typeof setTimeout>;
+  // Текущий ответ; следующая пачка ждет его завершения
+  active?: Promise<void>;
+}
+
+const queues = new Map<string, ChatQueue>();
+
+// Сообщения чата копятся, пока клиент пишет, и передаются обработчику одной пачкой после паузы
+// RESPONDER_DEBOUNCE_MS. Для чата одновременно выполняется не больше одного ответа: сообщения,
+// пришедшие во время ответа, попадут в следующую пачку
+export function enqueueReply(chatId: string, message: Message, handler: ReplyHandler): void {
+  let queue = queues.get(chatId);
+  if (!queue) {
+    queue = { messages: [], handler };
+    queues.set(chatId, queue);
+  }
+
+  // Отредактированное сообщение, которое еще ждет ответа, заменяется новой версией
+  const index = queue.messages.findIndex(item => item.id && item.id === message.id);
+  if (index >= 0) {
+    queue.messages[index] = message;
+  } else {
+    queue.messages.push(message);
+  }
+  queue.handler = handler;
+
+  clearTimeout(queue.timer);
+  queue.timer = setTimeout(() => flush(chatId), RESPONDER_DEBOUNCE_MS);
+}
+
+function flush(chatId: string) {
+  const queue = queues.get(chatId);
+  if (!queue) return;
+  queue.timer = undefined;
+
+  // Пачка будет отправлена по завершении текущего ответа
+  if (queue.active) return;
+
+  const batch = queue.messages.splice(0);
+  if (!batch.length) {
+    queues.delete(chatId);
+    return;
+  }
+
+  queue.active = queue.handler(batch)
+    .catch(error => console.error(`Error replying to chat ${chatId}:`, error))
+    .finally(() => {
+      queue.active = undefined;
+      if (queue.timer) return;
+      if (queue.messages.length) {
+        flush(chatId);
+      } else {
+        queues.delete(chatId);
+      }
+    });
+}
+
+// Число чатов, ожидающих ответа или отвечающих прямо сейчас
+export function pendingReplies(): number {
+  return queues.size;
+}
@@ -0,0 +1,81 @@
+import { Hono } from 'hono';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+// Заглушка OpenAI-совместимого API для проверки автоответов без сети:
+//   bun run llm-stub
+//   RESPONDER_PROVIDER=chat OPENAI_BASE_URL=http://localhost:4010/v1 bun start
+// Отвечает предсказуемым текстом, из которого видно, что дошло до модели.
+// Сообщение вида "/tool create_lead {"phone": "+7..."}" превращается в вызов инструмента
+
+const LLM_STUB_PORT = parseInt(process.env.LLM_STUB_PORT || '4010');
+
+const app = new Hono();
+
+function textOf(content: unknown): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content.map(part => part.type === 'text' ? part.text : `[${part.type}]`).join(' ');
+  }
+  return '';
+}
+
+app.get('/v1/models', (c) => c.json({
+  object: 'list',
+  data: [{ id: 'stub', object: 'model', created: 0, owned_by: 'stub' }]
+}));
+
+app.post('/v1/chat/completions', async (c) => {
+  const body = await c.req.json();
+  const messages: any[] = body.messages || [];
+  const last = messages[messages.length - 1];
+  const history = messages.filter(message => message.role !== 'system').length - 1;
+  const hasImage = Array.isArray(last?.content) && last.content.some((part: any) => part.type === 'image_url');
+  const toolRequest = textOf(last?.content).match(/\/tool (\S+)\s*(.*)$/s);
+
+  if (last?.role === 'user' && toolRequest && body.tools?.length) {
+    return c.json(completion(body.model, {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{
+        id: `call_${crypto.randomUUID()}`,
+        type: 'function',
+        function: { name: toolRequest[1], arguments: toolRequest[2] || '{}' }
+      }]
+    }, 'tool_calls'));
+  }
+
+  const content = last?.role === 'tool'
+    ? `Результат инструмента: ${textOf(last.content)}`
+    : hasImage
+      ? 'Тестовое описание изображения'
+      : `Ответ заглушки на «${textOf(last?.content)}» (сообщений в истории: ${history})`;
+
+  return c.json(completion(body.model, { role: 'assistant', content }, 'stop'));
+});
+
+function completion(model: string | undefined, message: Record<string, unknown>, finishReason: string) {
+  return {
+    id: `chatcmpl-${crypto.randomUUID()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: model || 'stub',
+    choices: [{ index: 0, message, finish_reason: finishReason }],
+    usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+  };
+}
+
+app.post('/v1/audio/transcriptions', async (c) => {
+  const body = await c.req.parseBody();
+  const file = body.file instanceof File ? body.file : undefined;
+  return c.json({ text: `Тестовая расшифровка ${file?.name || 'аудио'}` });
+});
+
+// Assistants API заглушка не поддерживает: для него нужен настоящий OpenAI
+app.all('*', (c) => c.json({ error: { message: `Not supported by stub: ${c.req.method} ${c.req.path}` } }, 404));
+
+Bun.serve({ port: LLM_STUB_PORT, fetch: app.fetch });
+console.log(`LLM stub listening on http://localhost:${LLM_STUB_PORT}/v1`);
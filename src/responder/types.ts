@@ -0,0 +1,30 @@
+import { Chat, Message } from '../models';
+
+// Модель, которая отвечает клиентам. Реализации: OpenAI Assistants и Chat Completions
+export interface ResponderProvider {
+  name: string;
+  // Автор автоответов в messages
+  senderId: string;
+  senderName: string;
+  // Ответ на сообщение клиента. В content уже подставлены цитата и расшифровка вложений,
+  // а несколько сообщений подряд объединены в одно
+  reply(chat: Chat, message: Message): Promise<string>;
+}
+
+// Правило, по которому чат передан оператору: фраза клиента, запрос ассистента,
+// ошибки автоответчика подряд или раздраженный тон клиента
+export type EscalationRule = 'keyword' | 'assistant' | 'failures' | 'sentiment';
+
+export interface Escalation {
+  rule: EscalationRule;
+  // Что именно сработало: фраза, причина от ассистента, число ошибок
+  detail: string;
+}
+
+export interface AIResponse {
+  content: string;
+  // Модель не ответила или вложение не удалось обработать: content — извинение для клиента
+  failed?: boolean;
+  // Чат нужно передать оператору: вместо content клиент получает сообщение о передаче
+  escalation?: Escalation;
+}
@@ -0,0 +1,74 @@
+import dotenv from 'dotenv';
+import { pocketbaseStorage } from './pocketbase';
+import { sqliteStorage } from './sqlite';
+import { StorageBackend } from './types';
+
+dotenv.config();
+
+export * from './types';
+
+const storage: StorageBackend = process.env.STORAGE === 'sqlite' ? sqliteStorage : pocketbaseStorage;
+
+export const storageName = storage.name;
+
+export const {
+  saveMessage,
+  updateMessage,
+  getMessage,
+  findMessageByPlatformId,
+  getLastIncomingMessage,
+  getQueuedMessages,
+  claimOutbound,
+  getMessages,
+  searchMessages,
+  purgeMessages,
+  saveChat,
+  updateResponseMode,
+  updateChatChannel,
+  findOrCreateChat,
+  getChats,
+  getChatById,
+  findChatByPlatformId,
+  deleteChat,
+  getChatsByContact,
+  saveContact,
+  getContact,
+  getContacts,
+  deleteContact,
+  saveToolCall,
+  getToolCalls,
+  saveDraft,
+  updateDraft,
+  getDraft,
+  getDrafts,
+  saveMediaFile,
+  findMediaByHash,
+  getMediaInfo,
+  getMediaFile,
+  getMediaUrl
+} = storage;
+
+export async function initStorage(): Promise<void> {
+  await storage.init();
+}
+
+export function isStorageConnected(): boolean {
+  return storage.isConnected();
+}
+
+export function storageQueueDepth(): number {
+  return storage.pendingWrites?.() ?? 0;
+}
+
+export async function replayStorageQueue(): Promise<number> {
+  return await storage.replayWrites?.() ?? 0;
+}
+
+// false, если файлы раздает не сам сервис (PocketBase отдает их по своим ссылкам)
+export function verifyMediaToken(mediaId: string, token: string): boolean {
+  return storage.verifyMediaToken?.(mediaId, token) ?? false;
+}
+
+export function servesMediaFiles(): boolean {
+  return Boolean(storage.verifyMediaToken);
+}
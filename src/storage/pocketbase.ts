@@ -1,12 +1,79 @@
 import PocketBase, { FileOptions, RecordModel } from 'pocketbase';
-import { Message, Chat, MessageSource } from '../models';
+import { randomBytes } from 'crypto';
+import { Message, Chat, Contact, Draft, MessageSource, ResponseMode, ToolCall } from '../models';
+import { DraftQuery, ListResult, MediaFile, MediaInfo, MediaMetadata, MediaVariant, PageCursor, PageQuery, PurgeQuery, PurgeResult, SearchHit, SearchQuery, StorageBackend } from './types';
+import { buildSnippet } from '../utils/snippet';
+import { syncSchema } from './schema';
+import { enqueueWrite, openWriteQueue, pendingWrites, queueDepth, QueuedWrite, remapRecordId, replayWrites, storeQueuedFile } from './writeQueue';
 
 const EMAIL = process.env.POCKETBASE_EMAIL;
 const PASSWORD = process.env.POCKETBASE_PASSWORD;
 const URL = process.env.POCKETBASE_URL;
+const WRITE_QUEUE_RETRY_MS = parseInt(process.env.WRITE_QUEUE_RETRY_MS || '5000');
 
 
 export const pb = new PocketBase(URL);
+// Сервер шлет параллельные одинаковые запросы (например, несколько saveMessage), автоотмена SDK их теряет
+pb.autoCancellation(false);
+
+// Записи, которые еще лежат в очереди, чтобы чтение по ID работало до их отправки
+const pendingRecords = new Map<string, Record<string, any>>();
+// Последние известные чаты по platformChatId на случай недоступности PocketBase
+const chatCache = new Map<string, Chat>();
+let reauthPromise: Promise<void> | undefined;
+let replaying = false;
+
+export const pocketbaseStorage: StorageBackend = {
+  name: "pocketbase",
+  init: async () => {
+    openWriteQueue();
+    restorePendingRecords();
+    await authenticate();
+    await syncSchema(pb);
+    startReplay();
+  },
+  isConnected: () => pb.authStore.isValid,
+  pendingWrites: () => queueDepth(),
+  replayWrites: async () => {
+    await replayQueue();
+    return queueDepth();
+  },
+  saveMessage: (msg) => saveMessage(msg),
+  updateMessage: (id, data) => updateMessage(id, data),
+  getMessage: (id) => getMessage(id),
+  findMessageByPlatformId: (platformMessageId, chatId) => findMessageByPlatformId(platformMessageId, chatId),
+  getLastIncomingMessage: (chatId) => getLastIncomingMessage(chatId),
+  getQueuedMessages: (staleBefore) => getQueuedMessages(staleBefore),
+  claimOutbound: (message, staleBefore) => claimOutbound(message, staleBefore),
+  getMessages: (chatId, query) => getMessages(chatId, query),
+  searchMessages: (query) => searchMessages(query),
+  purgeMessages: (query) => purgeMessages(query),
+  saveChat: (chat) => saveChat(chat),
+  updateResponseMode: (chatId, mode) => updateResponseMode(chatId, mode),
+  updateChatChannel: (chatId, channel) => updateChatChannel(chatId, channel),
+  findOrCreateChat: (id, source, name) => findOrCreateChat(id, source, name),
+  getChats: (source, query) => getChats(source, query),
+  getChatById: (chatId) => getChatById(chatId),
+  findChatByPlatformId: (platformChatId, source) => findChatByPlatformId(platformChatId, source),
+  deleteChat: (chatId) => deleteChat(chatId),
+  getChatsByContact: (contactId) => getChatsByContact(contactId),
+  saveContact: (contact) => saveContact(contact),
+  getContact: (contactId) => getContact(contactId),
+  getContacts: (query) => getContacts(query),
+  deleteContact: (contactId) => deleteContact(contactId),
+  saveToolCall: (call) => saveToolCall(call),
+  getToolCalls: (chatId, query) => getToolCalls(chatId, query),
+  saveDraft: (draft) => saveDraft(draft),
+  updateDraft: (id, data) => updateDraft(id, data),
+  getDraft: (id) => getDraft(id),
+  getDrafts: (query, page) => getDrafts(query, page),
+  saveMediaFile: (fileData, filename, contentType, platform, metadata, thumbnail) =>
+    saveMediaFile(fileData, filename, contentType, platform, metadata, thumbnail),
+  findMediaByHash: (sha256) => findMediaByHash(sha256),
+  getMediaInfo: (mediaId) => getMediaInfo(mediaId),
+  getMediaFile: (mediaId, variant) => getMediaFile(mediaId, variant),
+  getMediaUrl: (mediaId, variant) => getMediaUrl(mediaId, variant)
+};
 
 export async function authenticate(email: string = EMAIL!, password: string = PASSWORD!, silent: boolean = false) {
   try {
@@ -27,37 +94,271 @@ export async function authenticate(email: string = EMAIL!, password: string = PA
   }
 }
 
+// Параллельные запросы с истекшим токеном ждут одно общее обновление авторизации
 export async function refreshAuthentication() {
+  reauthPromise ??= (async () => {
+    try {
+      if (pb.authStore.isValid) {
+        await pb.collection('_superusers').authRefresh();
+      } else {
+        pb.authStore.clear();
+        await authenticate(EMAIL, PASSWORD, true);
+      }
+    } catch (error) {
+      pb.authStore.clear();
+      await authenticate(EMAIL, PASSWORD, true);
+    }
+  })().finally(() => {
+    reauthPromise = undefined;
+  });
+
+  return reauthPromise;
+}
+
+// Все запросы к PocketBase идут через эту обертку: при 401/403 авторизация обновляется и запрос повторяется один раз
+async function request<T>(send: () => Promise<T>): Promise<T> {
   try {
-    if (pb.authStore.isValid) {
-      await pb.collection('_superusers').authRefresh();
+    return await send();
+  } catch (err: any) {
+    if (err?.status !== 401 && err?.status !== 403) {
+      throw err;
+    }
+    await refreshAuthentication();
+    return await send();
+  }
+}
+
+function isNotFound(err: any): boolean {
+  return err?.status === 400 || err?.status === 404;
+}
+
+// Сетевая ошибка (status 0) или ответ прокси, пока PocketBase перезапускается
+function isConnectivityError(err: any): boolean {
+  return err?.status === 0 || err?.status >= 500;
+}
+
+// ID в формате PocketBase (15 символов [a-z0-9]), чтобы запись из очереди сохранилась под тем же ID
+function newRecordId(): string {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from(randomBytes(15), byte => alphabet[byte % alphabet.length]).join('');
+}
+
+function toChat(result: RecordModel | Record<string, any>): Chat {
+  // У чатов, созданных до появления responseMode, режим задан только флагом autoMode
+  const responseMode: ResponseMode = result.responseMode || (result.autoMode ? 'auto' : 'manual');
+  return {
+    id: result.id,
+    platformChatId: result.platformChatId,
+    source: result.source as MessageSource,
+    name: result.name,
+    updated: new Date(result.updated),
+    openAIThreadId: result.openAIThreadId,
+    autoMode: responseMode === 'auto',
+    responseMode,
+    ...(result.channel && { channel: result.channel }),
+    ...(result.contactId && { contactId: result.contactId })
+  };
+}
+
+function toContact(result: RecordModel | Record<string, any>): Contact {
+  return {
+    id: result.id,
+    name: result.name,
+    ...(result.phone && { phone: result.phone }),
+    ...(result.email && { email: result.email }),
+    ...(result.username && { username: result.username }),
+    ...(result.notes && { notes: result.notes }),
+    ...(result.attributes && Object.keys(result.attributes).length && { attributes: result.attributes }),
+    ...(result.updated && { updated: new Date(result.updated) })
+  };
+}
+
+function toToolCall(result: RecordModel | Record<string, any>): ToolCall {
+  return {
+    id: result.id,
+    chatId: result.chatId,
+    ...(result.messageId && { messageId: result.messageId }),
+    tool: result.tool,
+    arguments: result.arguments ?? {},
+    output: result.output,
+    status: result.status,
+    ...(result.error && { error: result.error }),
+    durationMs: result.durationMs,
+    timestamp: new Date(result.timestamp)
+  };
+}
+
+// Незаполненное число PocketBase возвращает как 0, поэтому editDistance берется только у одобренных черновиков
+function toDraft(result: RecordModel | Record<string, any>): Draft {
+  return {
+    id: result.id,
+    chatId: result.chatId,
+    source: result.source as MessageSource,
+    ...(result.channel && { channel: result.channel }),
+    ...(result.messageId && { messageId: result.messageId }),
+    suggestedContent: result.suggestedContent,
+    content: result.content,
+    status: result.status,
+    ...(result.sentMessageId && { sentMessageId: result.sentMessageId }),
+    ...(typeof result.editDistance === 'number' && result.status === 'approved' && { editDistance: result.editDistance }),
+    ...(result.visitorId && { visitorId: result.visitorId }),
+    ...(result.replyToMessageId && { replyToMessageId: result.replyToMessageId }),
+    timestamp: new Date(result.timestamp),
+    ...(result.updated && { updated: new Date(result.updated) }),
+    ...(result.decidedAt && { decidedAt: new Date(result.decidedAt) })
+  };
+}
+
+function toMessage(result: RecordModel | Record<string, any>): Message {
+  return {
+    id: result.id,
+    platformMessageId: result.platformMessageId,
+    source: result.source as MessageSource,
+    chatId: result.chatId,
+    type: result.type,
+    content: result.content,
+    mediaFileId: result.mediaFileId,
+    isIncoming: result.isIncoming,
+    timestamp: new Date(result.timestamp),
+    senderId: result.senderId,
+    senderName: result.senderName,
+    responseMode: result.responseMode,
+    ...(result.status && { status: result.status }),
+    ...(result.error && { error: result.error }),
+    ...(result.attempts && { attempts: result.attempts }),
+    ...(Array.isArray(result.editHistory) && result.editHistory.length && { editHistory: result.editHistory }),
+    ...(result.editedAt && { editedAt: new Date(result.editedAt) }),
+    ...(result.deleted && { deleted: true }),
+    ...(result.replyToMessageId && { replyToMessageId: result.replyToMessageId }),
+    ...(result.transcription && { transcription: result.transcription }),
+    ...(result.updated && { updated: new Date(result.updated) }),
+    ...(result.redactedAt && { redactedAt: new Date(result.redactedAt) })
+  };
+}
+
+function restorePendingRecords() {
+  for (const write of pendingWrites()) {
+    trackPending(write);
+  }
+
+  const depth = queueDepth();
+  if (depth) {
+    console.log(`PocketBase: ${depth} queued writes are waiting to be replayed`);
+  }
+}
+
+function trackPending(write: QueuedWrite) {
+  const record: Record<string, any> = {
+    ...pendingRecords.get(write.recordId),
+    ...write.data,
+    id: write.recordId,
+    ...(write.filePath && { filePath: write.filePath, file: write.fileName, mimeType: write.mimeType })
+  };
+  pendingRecords.set(write.recordId, record);
+  if (write.collection === 'chats' && record.platformChatId) {
+    chatCache.set(record.platformChatId, toChat(record));
+  }
+}
+
+// Пока очередь не пуста, новые записи тоже встают в очередь, иначе нарушится порядок
+async function writeRecord(write: QueuedWrite): Promise<RecordModel | null> {
+  if (queueDepth() === 0) {
+    try {
+      return await request(() => write.op === 'create'
+        ? pb.collection(write.collection).create({ ...write.data, id: write.recordId })
+        : pb.collection(write.collection).update(write.recordId, write.data));
+    } catch (err: any) {
+      if (!isConnectivityError(err)) {
+        throw err;
+      }
+      console.error(`PocketBase is unavailable, queueing ${write.op} of ${write.collection}/${write.recordId}`);
+    }
+  }
+
+  // JSON-копия, чтобы ответ совпадал с тем, что будет прочитано из очереди после перезапуска
+  const queued = { ...write, data: JSON.parse(JSON.stringify(write.data)) };
+  enqueueWrite(queued);
+  trackPending(queued);
+  return null;
+}
+
+function startReplay() {
+  const timer = setInterval(() => {
+    replayQueue().catch(error => {
+      console.error('PocketBase: Failed to replay queued writes:', error);
+    });
+  }, WRITE_QUEUE_RETRY_MS);
+  timer.unref?.();
+}
+
+async function replayQueue() {
+  if (replaying || queueDepth() === 0) return;
+
+  replaying = true;
+  try {
+    const replayed = await replayWrites(applyQueuedWrite);
+    if (replayed) {
+      console.log(`PocketBase: Replayed ${replayed} queued writes, ${queueDepth()} left`);
+    }
+    if (queueDepth() === 0) {
+      pendingRecords.clear();
+    }
+  } finally {
+    replaying = false;
+  }
+}
+
+async function applyQueuedWrite(write: QueuedWrite): Promise<boolean> {
+  try {
+    if (write.op === 'update') {
+      await request(() => pb.collection(write.collection).update(write.recordId, write.data));
+    } else if (write.filePath) {
+      const formData = new FormData();
+      formData.append('id', write.recordId);
+      formData.append('file', Bun.file(write.filePath, { type: write.mimeType }), write.fileName);
+      for (const [key, value] of Object.entries(write.data)) {
+        formData.append(key, String(value));
+      }
+      await request(() => pb.collection(write.collection).create(formData));
     } else {
-      await pb.authStore.clear();
-      await authenticate();
+      await request(() => pb.collection(write.collection).create({ ...write.data, id: write.recordId }));
+    }
+    return true;
+  } catch (err: any) {
+    if (isConnectivityError(err)) {
+      return false;
+    }
+    return await resolveFailedWrite(write, err);
+  }
+}
+
+// Запись отклонена: либо она уже была сохранена до сбоя, либо чат успели создать повторно
+async function resolveFailedWrite(write: QueuedWrite, err: any): Promise<boolean> {
+  if (write.op === 'create') {
+    const exists = await request(() => pb.collection(write.collection).getOne(write.recordId)).catch(() => null);
+    if (exists) return true;
+
+    if (write.collection === 'chats' && write.data.platformChatId) {
+      const existing = await request(() =>
+        pb.collection('chats').getFirstListItem(pb.filter('platformChatId = {:platformChatId}', { platformChatId: write.data.platformChatId }))
+      ).catch(() => null);
+      if (existing) {
+        remapRecordId(write.recordId, existing.id);
+        chatCache.set(existing.platformChatId, toChat(existing));
+        return true;
+      }
     }
-  } catch (error) {
-    await pb.authStore.clear();
-    await authenticate();
   }
+
+  console.error(`PocketBase: Dropping queued ${write.op} of ${write.collection}/${write.recordId}:`, err?.response || err);
+  return true;
 }
 
 export async function saveMessage(msg: Message): Promise<Message> {
+  const id = newRecordId();
   try {
-    const result = await pb.collection('messages').create(msg);
-    return {
-      id: result.id,
-      platformMessageId: result.platformMessageId,
-      source: result.source as MessageSource,
-      chatId: result.chatId,
-      type: result.type,
-      content: result.content,
-      mediaFileId: result.mediaFileId,
-      isIncoming: result.isIncoming,
-      timestamp: new Date(result.timestamp),
-      senderId: result.senderId,
-      senderName: result.senderName,
-      responseMode: result.responseMode
-    };
+    const result = await writeRecord({ op: 'create', collection: 'messages', recordId: id, data: msg });
+    return toMessage(result ?? pendingRecords.get(id)!);
   } catch (err: any) {
     if (err.status === 400) {
       console.log("Unable to save message");
@@ -66,114 +367,214 @@ export async function saveMessage(msg: Message): Promise<Message> {
   }
 }
 
-export async function saveMediaFile(fileData: Blob, filename: string, contentType: string, platform: string): Promise<string> {
+export async function updateMessage(id: string, data: Partial<Message>): Promise<Message> {
   try {
-    const formData = new FormData();
-    formData.append('file', fileData, filename);
-    formData.append('platform', platform);
-
-    const result = await pb.collection('media').create(formData);
-    return result.id;
+    const result = await writeRecord({ op: 'update', collection: 'messages', recordId: id, data });
+    return toMessage(result ?? pendingRecords.get(id)!);
   } catch (err: any) {
-    if (err.status === 400 || err.status === 404) {
-      console.log("Unable to save file");
+    if (isNotFound(err)) {
+      console.log("Unable to update message");
     }
     throw err;
   }
 }
 
-export async function getMessageById(platformMessageId: string, senderId: string): Promise<String | null> {
+export async function getMessage(id: string): Promise<Message | null> {
   try {
-    const result = await pb.collection('messages').getFirstListItem(`platformMessageId="${platformMessageId}" && senderId="${senderId}"`);
-    return result.id;
+    return toMessage(await request(() => pb.collection('messages').getOne(id)));
+  } catch (err: any) {
+    if (pendingRecords.has(id) && (isNotFound(err) || isConnectivityError(err))) {
+      return toMessage(pendingRecords.get(id)!);
+    }
+    if (isNotFound(err)) {
+      return null;
+    }
+    throw err;
   }
+}
 
-  catch (err: any) {
-    if (err.status === 403) {
-      await authenticate();
-      return getMessageById(platformMessageId, senderId);
+export async function findMessageByPlatformId(platformMessageId: string, chatId?: string): Promise<Message | null> {
+  try {
+    const filter = chatId
+      ? pb.filter('platformMessageId = {:platformMessageId} && chatId = {:chatId}', { platformMessageId, chatId })
+      : pb.filter('platformMessageId = {:platformMessageId}', { platformMessageId });
+    return toMessage(await request(() => pb.collection('messages').getFirstListItem(filter)));
+  } catch (err: any) {
+    if (isNotFound(err)) {
+      return null;
     }
-    if (err.status === 400 || err.status === 404) {
+    throw err;
+  }
+}
+
+export async function getLastIncomingMessage(chatId: string): Promise<Message | null> {
+  try {
+    const result = await request(() => pb.collection('messages').getFirstListItem(pb.filter('chatId = {:chatId} && isIncoming = true', { chatId }), {
+      sort: '-timestamp'
+    }));
+    return toMessage(result);
+  } catch (err: any) {
+    if (isNotFound(err)) {
       return null;
     }
     throw err;
   }
 }
 
-export async function saveChat(chat: Chat): Promise<Chat> {
+export async function getQueuedMessages(staleBefore: Date): Promise<Message[]> {
+  const messages = await request(() => pb.collection('messages').getFullList({
+    filter: pb.filter('isIncoming = false && status = "queued" && updated < {:staleBefore}', { staleBefore }),
+    sort: 'timestamp'
+  }));
+  return messages.map(toMessage);
+}
+
+// Условного обновления в PocketBase нет, поэтому захват — создание записи с уникальной парой messageId и leaseFrom
+// (updated сообщения, каким его видел захватывающий): второй экземпляр получит ошибку уникальности
+export async function claimOutbound(message: Message, staleBefore: Date): Promise<boolean> {
+  const claim = { messageId: message.id!, leaseFrom: message.updated!.toISOString() };
+
+  if (!await createClaim(claim)) {
+    // Захвативший мог упасть, не успев обновить сообщение; его запись удаляется по ID,
+    // поэтому из экземпляров, одновременно заметивших брошенный захват, новую запись создаст только один
+    const existing = await request(() => pb.collection('outbound_claims').getFirstListItem(
+      pb.filter('messageId = {:messageId} && leaseFrom = {:leaseFrom}', claim)
+    )).catch(() => null);
+    if (!existing || new Date(existing.created) >= staleBefore) return false;
+
+    await request(() => pb.collection('outbound_claims').delete(existing.id)).catch(() => null);
+    if (!await createClaim(claim)) return false;
+  }
+
+  // Сообщение могло измениться между выборкой и захватом
+  const current = await getMessage(message.id!);
+  if (current?.status !== 'queued' || current.updated?.getTime() !== message.updated!.getTime()) return false;
+
+  await updateMessage(message.id!, { attempts: current.attempts ?? 0 });
+  return true;
+}
+
+async function createClaim(claim: { messageId: string, leaseFrom: string }): Promise<boolean> {
   try {
-    let result: RecordModel;
+    await request(() => pb.collection('outbound_claims').create(claim));
+    return true;
+  } catch (err: any) {
+    if (err?.status === 400) return false;
+    throw err;
+  }
+}
 
-    if (chat.id) {
-      result = await pb.collection('chats').update(chat.id, chat);
-    } else {
-      result = await pb.collection('chats').create(chat);
+// Превью в очередь не попадает: пока PocketBase недоступен, файл сохраняется без него
+export async function saveMediaFile(
+  fileData: Blob, filename: string, contentType: string, platform: string, metadata?: MediaMetadata, thumbnail?: Blob
+): Promise<string> {
+  const id = newRecordId();
+  const data: Record<string, any> = { platform, mimeType: contentType, ...metadata };
+
+  if (queueDepth() === 0) {
+    try {
+      const formData = new FormData();
+      formData.append('id', id);
+      formData.append('file', fileData, filename);
+      for (const [key, value] of Object.entries(data)) {
+        formData.append(key, String(value));
+      }
+      if (thumbnail) {
+        formData.append('thumbnail', thumbnail, `thumb_${id}.jpg`);
+      }
+
+      const result = await request(() => pb.collection('media').create(formData));
+      return result.id;
+    } catch (err: any) {
+      if (!isConnectivityError(err)) {
+        if (isNotFound(err)) {
+          console.log("Unable to save file");
+        }
+        throw err;
+      }
+      console.error(`PocketBase is unavailable, queueing media file ${filename}`);
     }
+  }
 
-    return {
-      id: result.id,
-      platformChatId: result.platformChatId,
-      source: result.source as MessageSource,
-      name: result.name,
-      updated: new Date(result.updated),
-      openAIThreadId: result.openAIThreadId,
-      autoMode: result.autoMode
-    };
-  } catch (err: any) {
-    if (err.status === 403) {
-      await refreshAuthentication();
-      return saveChat(chat);
+  const write: QueuedWrite = {
+    op: 'create',
+    collection: 'media',
+    recordId: id,
+    data,
+    filePath: await storeQueuedFile(fileData),
+    fileName: filename,
+    mimeType: contentType
+  };
+  enqueueWrite(write);
+  trackPending(write);
+  return id;
+}
+
+export async function saveChat(chat: Chat): Promise<Chat> {
+  try {
+    const data = { ...chat, autoMode: chat.responseMode === 'auto' };
+    const result = await writeRecord(chat.id
+      ? { op: 'update', collection: 'chats', recordId: chat.id, data }
+      : { op: 'create', collection: 'chats', recordId: newRecordId(), data });
+
+    const saved = result ? toChat(result) : chatCache.get(chat.platformChatId!) ?? { ...chat };
+    if (saved.platformChatId) {
+      chatCache.set(saved.platformChatId, saved);
     }
-    if (err.status === 400 || err.status === 404) {
+    return saved;
+  } catch (err: any) {
+    if (isNotFound(err)) {
       console.log("Unable to save chat");
     }
     throw err;
   }
 }
 
-export async function updateResponseMode(chatId: string, autoMode: boolean): Promise<void> {
+export async function updateResponseMode(chatId: string, mode: ResponseMode): Promise<void> {
   try {
-    await pb.collection('chats').update(chatId, { autoMode });
+    await writeRecord({ op: 'update', collection: 'chats', recordId: chatId, data: { responseMode: mode, autoMode: mode === 'auto' } });
   } catch (error) {
     console.error('Failed to update response mode:', error);
     throw error;
   }
 }
 
+export async function updateChatChannel(chatId: string, channel: string): Promise<void> {
+  try {
+    await writeRecord({ op: 'update', collection: 'chats', recordId: chatId, data: { channel } });
+  } catch (error) {
+    console.error('Failed to update chat channel:', error);
+    throw error;
+  }
+}
+
+// Если PocketBase недоступен, используется последний известный чат, а новый создается через очередь
 export async function findOrCreateChat(
   id: string, source?: MessageSource, name?: string): Promise<Chat | null> {
+  const newChat: Chat = {
+    platformChatId: id,
+    source: source!,
+    name: name || "Unknown",
+    openAIThreadId: "",
+    updated: new Date(),
+    autoMode: false,
+    responseMode: 'manual'
+  };
+
   try {
     const options = { requestKey: `findchat_${id}`, timeout: 5000 };
 
     try {
-      const result = await pb.collection('chats').getFirstListItem(`platformChatId="${id}"`, options);
-
-      return {
-        id: result.id,
-        platformChatId: result.platformChatId,
-        source: result.source,
-        name: result.name,
-        autoMode: result.autoMode,
-        openAIThreadId: result.openAIThreadId,
-        updated: new Date(result.updated)
-      };
-
+      const result = await request(() => pb.collection('chats').getFirstListItem(pb.filter('platformChatId = {:id}', { id }), options));
+      const chat = toChat(result);
+      chatCache.set(id, chat);
+      return chat;
     } catch (err: any) {
-      if (err.status === 403) {
-        await refreshAuthentication();
-        return findOrCreateChat(id, source, name);
+      if (isConnectivityError(err)) {
+        return chatCache.get(id) ?? await saveChat(newChat);
       }
-      if (err.status === 400 || err.status === 404) {
-        const chat: Chat = {
-          platformChatId: id,
-          source: source!,
-          name: name || "Unknown",
-          openAIThreadId: "",
-          updated: new Date(),
-          autoMode: false
-        };
-
-        const savedChat = await saveChat(chat);
+      if (isNotFound(err)) {
+        const savedChat = await saveChat(newChat);
         if (!savedChat) {
           throw new Error(`Failed to create chat for ${source} sourceId: ${id}`);
         }
@@ -188,49 +589,400 @@ export async function findOrCreateChat(
   }
 }
 
-export async function getChats(source: string, limit: number): Promise<any> {
+function cursorFilter(field: string, operator: '<' | '>', cursor: PageCursor): string {
+  return cursor.id
+    ? pb.filter(`(${field} ${operator} {:date} || (${field} = {:date} && id ${operator} {:id}))`, { date: cursor.date, id: cursor.id })
+    : pb.filter(`${field} ${operator} {:date}`, { date: cursor.date });
+}
+
+// Условия курсоров и updatedSince; field — поле, по которому отсортирован список
+function pageFilters(field: string, query: PageQuery): string[] {
+  const conditions: string[] = [];
+  if (query.before) conditions.push(cursorFilter(field, '<', query.before));
+  if (query.after) conditions.push(cursorFilter(field, '>', query.after));
+  if (query.updatedSince) conditions.push(pb.filter('updated >= {:since}', { since: query.updatedSince }));
+  return conditions;
+}
+
+export async function getChats(source: string | undefined, query: PageQuery): Promise<ListResult<Chat>> {
+  const conditions = pageFilters('updated', query);
+  if (source) conditions.push(pb.filter('source = {:source}', { source }));
+
+  // Только с after берутся ближайшие к курсору, то есть самые старые из более новых чатов
+  const nearestAfter = Boolean(query.after && !query.before);
+  const chats = await request(() => pb.collection('chats').getList(1, query.limit, {
+    sort: nearestAfter ? 'updated,id' : '-updated,-id',
+    filter: conditions.join(' && ')
+  }));
+
+  const items = chats.items.map(toChat);
+  return { items: nearestAfter ? items.reverse() : items, totalItems: chats.totalItems };
+}
+
+export async function getChatById(chatId: string): Promise<Chat | null> {
   try {
-    let filter = '';
-    if (source) {
-      filter = `source="${source}"`;
+    return toChat(await request(() => pb.collection('chats').getOne(chatId)));
+  } catch (error: any) {
+    if (pendingRecords.has(chatId)) {
+      return toChat(pendingRecords.get(chatId)!);
     }
-    const chats = await pb.collection('chats').getList(1, limit, {
-      sort: '-updated',
-      filter
-    });
-    return chats;
+    console.error(`Failed to get chat: ${chatId}`);
+    return null;
+  }
+}
 
-  } catch (error: any) {
-    if (error.status === 403) {
-      await refreshAuthentication();
-      return getChats(source, limit);
+export async function findChatByPlatformId(platformChatId: string, source?: MessageSource): Promise<Chat | null> {
+  const filter = source
+    ? pb.filter('platformChatId = {:platformChatId} && source = {:source}', { platformChatId, source })
+    : pb.filter('platformChatId = {:platformChatId}', { platformChatId });
+  try {
+    return toChat(await request(() => pb.collection('chats').getFirstListItem(filter)));
+  } catch (err: any) {
+    if (isNotFound(err)) {
+      return null;
     }
-    throw error;
+    throw err;
+  }
+}
+
+export async function deleteChat(chatId: string): Promise<PurgeResult> {
+  const result = await purgeMessages({ chatId });
+  const chat = await getChatById(chatId);
+  await request(() => pb.collection('chats').delete(chatId));
+  if (chat?.platformChatId) {
+    chatCache.delete(chat.platformChatId);
   }
+  return result;
+}
+
+export async function getChatsByContact(contactId: string): Promise<Chat[]> {
+  const chats = await request(() => pb.collection('chats').getFullList({
+    filter: pb.filter('contactId = {:contactId}', { contactId }),
+    sort: '-updated'
+  }));
+  return chats.map(toChat);
 }
 
-export async function getChatById(chatId: string): Promise<any> {
+export async function saveContact(contact: Contact): Promise<Contact> {
+  const recordId = contact.id ?? newRecordId();
+  const data = { ...contact, attributes: contact.attributes ?? null };
+  const result = await writeRecord({ op: contact.id ? 'update' : 'create', collection: 'contacts', recordId, data });
+  return toContact(result ?? pendingRecords.get(recordId)!);
+}
+
+export async function getContact(contactId: string): Promise<Contact | null> {
   try {
-    return await pb.collection('chats').getOne(chatId);
-  } catch (error: any) {
-    if (error.status === 403) {
-      await refreshAuthentication();
-      return getChatById(chatId);
+    return toContact(await request(() => pb.collection('contacts').getOne(contactId)));
+  } catch (err: any) {
+    if (pendingRecords.has(contactId) && (isNotFound(err) || isConnectivityError(err))) {
+      return toContact(pendingRecords.get(contactId)!);
     }
-    console.error(`Failed to get chat: ${chatId}`);
-    return null;
+    if (isNotFound(err)) {
+      return null;
+    }
+    throw err;
   }
 }
 
-export async function getMediaRecord(mediaId: string): Promise<any> {
+export async function getContacts(query: PageQuery): Promise<ListResult<Contact>> {
+  const nearestAfter = Boolean(query.after && !query.before);
+  const contacts = await request(() => pb.collection('contacts').getList(1, query.limit, {
+    sort: nearestAfter ? 'updated,id' : '-updated,-id',
+    filter: pageFilters('updated', query).join(' && ')
+  }));
+
+  const items = contacts.items.map(toContact);
+  return { items: nearestAfter ? items.reverse() : items, totalItems: contacts.totalItems };
+}
+
+export async function deleteContact(contactId: string): Promise<void> {
+  await request(() => pb.collection('contacts').delete(contactId));
+}
+
+export async function saveToolCall(call: ToolCall): Promise<ToolCall> {
+  const id = newRecordId();
+  const result = await writeRecord({ op: 'create', collection: 'tool_calls', recordId: id, data: call });
+  return toToolCall(result ?? pendingRecords.get(id)!);
+}
+
+export async function getToolCalls(chatId: string, query: PageQuery): Promise<ListResult<ToolCall>> {
+  // У вызовов нет поля изменения: журнал не изменяется, поэтому updatedSince отбирает по времени вызова
+  const conditions = [pb.filter('chatId = {:chatId}', { chatId }), ...pageFilters('timestamp', { ...query, updatedSince: undefined })];
+  if (query.updatedSince) conditions.push(pb.filter('timestamp >= {:since}', { since: query.updatedSince }));
+
+  const nearestBefore = Boolean(query.before && !query.after);
+  const calls = await request(() => pb.collection('tool_calls').getList(1, query.limit, {
+    filter: conditions.join(' && '),
+    sort: nearestBefore ? '-timestamp,-id' : 'timestamp,id'
+  }));
+
+  const items = calls.items.map(toToolCall);
+  return { items: nearestBefore ? items.reverse() : items, totalItems: calls.totalItems };
+}
+
+export async function saveDraft(draft: Draft): Promise<Draft> {
+  const id = newRecordId();
+  const result = await writeRecord({ op: 'create', collection: 'drafts', recordId: id, data: draft });
+  return toDraft(result ?? pendingRecords.get(id)!);
+}
+
+export async function updateDraft(id: string, data: Partial<Draft>): Promise<Draft> {
+  const result = await writeRecord({ op: 'update', collection: 'drafts', recordId: id, data });
+  return toDraft(result ?? pendingRecords.get(id)!);
+}
+
+export async function getDraft(id: string): Promise<Draft | null> {
   try {
-    return await pb.collection('media').getOne(mediaId);
+    return toDraft(await request(() => pb.collection('drafts').getOne(id)));
+  } catch (err: any) {
+    if (pendingRecords.has(id) && (isNotFound(err) || isConnectivityError(err))) {
+      return toDraft(pendingRecords.get(id)!);
+    }
+    if (isNotFound(err)) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export async function getDrafts(query: DraftQuery, page: PageQuery): Promise<ListResult<Draft>> {
+  const conditions = pageFilters('timestamp', page);
+  if (query.chatId) conditions.push(pb.filter('chatId = {:chatId}', { chatId: query.chatId }));
+  if (query.source) conditions.push(pb.filter('source = {:source}', { source: query.source }));
+  if (query.status) conditions.push(pb.filter('status = {:status}', { status: query.status }));
+
+  const nearestBefore = Boolean(page.before && !page.after);
+  const drafts = await request(() => pb.collection('drafts').getList(1, page.limit, {
+    filter: conditions.join(' && '),
+    sort: nearestBefore ? '-timestamp,-id' : 'timestamp,id'
+  }));
+
+  const items = drafts.items.map(toDraft);
+  return { items: nearestBefore ? items.reverse() : items, totalItems: drafts.totalItems };
+}
+
+export async function getMessages(chatId: string, query: PageQuery): Promise<ListResult<Message>> {
+  const conditions = [pb.filter('chatId = {:chatId}', { chatId }), ...pageFilters('timestamp', query)];
+
+  // Только с before берутся ближайшие к курсору, то есть самые новые из более ранних сообщений
+  const nearestBefore = Boolean(query.before && !query.after);
+  const messages = await request(() => pb.collection('messages').getList(1, query.limit, {
+    filter: conditions.join(' && '),
+    sort: nearestBefore ? '-timestamp,-id' : 'timestamp,id'
+  }));
+
+  const items = messages.items.map(toMessage);
+  return { items: nearestBefore ? items.reverse() : items, totalItems: messages.totalItems };
+}
+
+export async function searchMessages(query: SearchQuery): Promise<ListResult<SearchHit>> {
+  const conditions = query.terms.map(term => pb.filter('(content ~ {:term} || transcription ~ {:term})', { term }));
+  if (query.source) conditions.push(pb.filter('source = {:source}', { source: query.source }));
+  if (query.chatId) conditions.push(pb.filter('chatId = {:chatId}', { chatId: query.chatId }));
+  if (query.from) conditions.push(pb.filter('timestamp >= {:from}', { from: query.from }));
+  if (query.to) conditions.push(pb.filter('timestamp <= {:to}', { to: query.to }));
+  if (query.isIncoming !== undefined) conditions.push(pb.filter('isIncoming = {:isIncoming}', { isIncoming: query.isIncoming }));
+  if (query.responseMode) conditions.push(pb.filter('responseMode = {:responseMode}', { responseMode: query.responseMode }));
+
+  const result = await request(() => pb.collection('messages').getList(query.page, query.limit, {
+    filter: conditions.join(' && '),
+    sort: '-timestamp',
+    expand: 'chatId'
+  }));
+
+  return {
+    items: result.items.map(record => {
+      const message = toMessage(record);
+      return {
+        message,
+        chat: record.expand?.chatId ? toChat(record.expand.chatId) : null,
+        snippet: buildSnippet(query.terms, [message.content, message.transcription])
+      };
+    }),
+    totalItems: result.totalItems
+  };
+}
+
+const PURGE_BATCH_SIZE = 200;
+
+// Удаление идет пачками: обработанные записи выпадают из фильтра, поэтому каждый раз читается первая страница
+export async function purgeMessages(query: PurgeQuery): Promise<PurgeResult> {
+  const conditions: string[] = [];
+  if (query.source) conditions.push(pb.filter('source = {:source}', { source: query.source }));
+  if (query.chatId) conditions.push(pb.filter('chatId = {:chatId}', { chatId: query.chatId }));
+  if (query.senderId) conditions.push(pb.filter('senderId = {:senderId}', { senderId: query.senderId }));
+  if (query.olderThan) conditions.push(pb.filter('timestamp < {:olderThan}', { olderThan: query.olderThan }));
+  if (query.anonymize) conditions.push("redactedAt = ''");
+
+  const result: PurgeResult = { messages: 0, media: 0 };
+  for (; ;) {
+    const page = await request(() => pb.collection('messages').getList(1, PURGE_BATCH_SIZE, {
+      filter: conditions.join(' && '),
+      fields: 'id,mediaFileId',
+      skipTotal: true
+    }));
+    if (!page.items.length) {
+      return result;
+    }
+
+    for (const record of page.items) {
+      if (query.anonymize) {
+        await request(() => pb.collection('messages').update(record.id, {
+          content: '',
+          transcription: '',
+          mediaFileId: '',
+          senderId: 'anonymized',
+          senderName: '',
+          editHistory: null,
+          error: '',
+          redactedAt: new Date()
+        }));
+        // Аргументы и результаты инструментов и черновики ответов тоже могут содержать персональные данные
+        await deleteToolCalls(record.id);
+        await deleteDrafts(record.id);
+      } else {
+        await request(() => pb.collection('messages').delete(record.id));
+      }
+      result.messages++;
+
+      if (record.mediaFileId && !(await isMediaReferenced(record.mediaFileId))) {
+        try {
+          await request(() => pb.collection('media').delete(record.mediaFileId));
+          result.media++;
+        } catch (err: any) {
+          if (!isNotFound(err)) throw err;
+        }
+      }
+    }
+  }
+}
+
+// При удалении сообщения вызовы удаляются каскадно, при обезличивании — здесь
+async function deleteToolCalls(messageId: string) {
+  const calls = await request(() => pb.collection('tool_calls').getFullList({
+    filter: pb.filter('messageId = {:messageId}', { messageId }),
+    fields: 'id'
+  }));
+  for (const call of calls) {
+    await request(() => pb.collection('tool_calls').delete(call.id));
+  }
+}
+
+// Черновики с текстом клиента или с отправленным ответом: при обезличивании каскадное удаление не срабатывает
+async function deleteDrafts(messageId: string) {
+  const drafts = await request(() => pb.collection('drafts').getFullList({
+    filter: pb.filter('messageId = {:messageId} || sentMessageId = {:messageId}', { messageId }),
+    fields: 'id'
+  }));
+  for (const draft of drafts) {
+    await request(() => pb.collection('drafts').delete(draft.id));
+  }
+}
+
+// Одинаковые файлы хранятся один раз, поэтому файл удаляется, только если на него не ссылаются другие сообщения
+async function isMediaReferenced(mediaId: string): Promise<boolean> {
+  const page = await request(() => pb.collection('messages').getList(1, 1, {
+    filter: pb.filter('mediaFileId = {:mediaId}', { mediaId }),
+    fields: 'id',
+    skipTotal: true
+  }));
+  return page.items.length > 0;
+}
+
+async function getMediaRecord(mediaId: string): Promise<any> {
+  try {
+    return await request(() => pb.collection('media').getOne(mediaId));
   } catch (error) {
     console.error(`Failed to get media record for ${mediaId}`);
   }
 }
 
-export async function getFileUrl(record: { [key: string]: any },
+export async function findMediaByHash(sha256: string): Promise<string | null> {
+  try {
+    const record = await request(() => pb.collection('media').getFirstListItem(pb.filter('sha256 = {:sha256}', { sha256 }), { fields: 'id' }));
+    return record.id;
+  } catch (err: any) {
+    // Без связи с PocketBase дубликат просто сохранится еще раз
+    if (isNotFound(err) || isConnectivityError(err)) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+// У файлов, сохраненных до появления поля mimeType, тип определяется по расширению
+function mediaMimeType(record: Record<string, any>): string {
+  return record.mimeType || Bun.file(record.file).type.split(';')[0];
+}
+
+export async function getMediaInfo(mediaId: string): Promise<MediaInfo | null> {
+  const record = pendingRecords.get(mediaId) ?? await getMediaRecord(mediaId);
+  if (!record) {
+    return null;
+  }
+
+  return {
+    id: record.id,
+    fileName: record.file,
+    mimeType: mediaMimeType(record),
+    hasThumbnail: Boolean(record.thumbnail),
+    ...(record.sha256 && { sha256: record.sha256 }),
+    ...(record.size && { size: Number(record.size) }),
+    ...(record.width && { width: Number(record.width) }),
+    ...(record.height && { height: Number(record.height) }),
+    ...(record.duration && { duration: Number(record.duration) })
+  };
+}
+
+export async function getMediaFile(mediaId: string, variant: MediaVariant = 'original'): Promise<MediaFile | null> {
+  // Файл из очереди еще не загружен в PocketBase и читается с диска
+  const pending = pendingRecords.get(mediaId);
+  if (pending?.filePath) {
+    if (variant === 'thumbnail') {
+      return null;
+    }
+    return {
+      file: Bun.file(pending.filePath, { type: pending.mimeType }),
+      fileName: pending.file,
+      mimeType: pending.mimeType
+    };
+  }
+
+  const mediaRecord = await getMediaRecord(mediaId);
+  const fileName = variant === 'thumbnail' ? mediaRecord?.thumbnail : mediaRecord?.file;
+  if (!fileName) {
+    return null;
+  }
+
+  const fileToken = await getFileToken();
+  const url = await getFileUrl(mediaRecord, fileName, { 'token': fileToken });
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download media ${mediaId}: ${response.status} ${response.statusText}`);
+  }
+
+  const file = await response.blob();
+  return {
+    file,
+    fileName,
+    mimeType: variant === 'thumbnail'
+      ? 'image/jpeg'
+      : mediaRecord.mimeType || (response.headers.get('content-type') || file.type || 'application/octet-stream').split(';')[0]
+  };
+}
+
+export async function getMediaUrl(mediaId: string, variant: MediaVariant = 'original'): Promise<string | null> {
+  const mediaRecord = await getMediaRecord(mediaId);
+  const fileName = variant === 'thumbnail' ? mediaRecord?.thumbnail : mediaRecord?.file;
+  if (!fileName) {
+    return null;
+  }
+
+  const fileToken = await getFileToken();
+  return await getFileUrl(mediaRecord, fileName, { 'token': fileToken });
+}
+
+async function getFileUrl(record: { [key: string]: any },
   filename: string,
   queryParams: FileOptions = {}): Promise<string> {
   try {
@@ -240,9 +992,9 @@ export async function getFileUrl(record: { [key: string]: any },
   }
 }
 
-export async function getFileToken(): Promise<string> {
+async function getFileToken(): Promise<string> {
   try {
-    return pb.files.getToken();
+    return await request(() => pb.files.getToken());
   }
   catch (error) {
     return `Failed to get file token: ${error}`;
@@ -0,0 +1,404 @@
+import PocketBase from 'pocketbase';
+
+const SCHEMA_MODE = process.env.POCKETBASE_SCHEMA || 'migrate';
+
+// Запись в schema_meta, где хранится число примененных шагов MIGRATIONS
+const VERSION_KEY = 'schema_version';
+
+interface FieldSpec {
+  name: string;
+  type: string;
+  required?: boolean;
+  // Коллекция, на которую ссылается relation-поле
+  relation?: string;
+  // Типы существующего поля, которые тоже считаются совместимыми
+  accepts?: string[];
+  options?: Record<string, any>;
+}
+
+interface IndexSpec {
+  columns: string[];
+  unique?: boolean;
+}
+
+interface CollectionSpec {
+  name: string;
+  fields: FieldSpec[];
+  indexes: IndexSpec[];
+}
+
+const AUTH_RULE = "@request.auth.id != ''";
+
+// Удаление записей доступно только суперпользователям (правило null)
+const RULES = {
+  listRule: AUTH_RULE,
+  viewRule: AUTH_RULE,
+  createRule: AUTH_RULE,
+  updateRule: AUTH_RULE,
+  deleteRule: null
+};
+
+const TIMESTAMPS: FieldSpec[] = [
+  { name: 'created', type: 'autodate', accepts: ['date'], options: { onCreate: true, onUpdate: false } },
+  { name: 'updated', type: 'autodate', accepts: ['date'], options: { onCreate: true, onUpdate: true } }
+];
+
+const COLLECTIONS: CollectionSpec[] = [
+  {
+    name: 'media',
+    fields: [
+      { name: 'file', type: 'file', required: true, options: { maxSelect: 1, maxSize: 52428800 } },
+      { name: 'platform', type: 'text', required: true },
+      { name: 'mimeType', type: 'text' },
+      { name: 'sha256', type: 'text' },
+      { name: 'size', type: 'number' },
+      { name: 'width', type: 'number' },
+      { name: 'height', type: 'number' },
+      { name: 'duration', type: 'number' },
+      { name: 'thumbnail', type: 'file', options: { maxSelect: 1, maxSize: 5242880 } },
+      ...TIMESTAMPS
+    ],
+    indexes: [
+      { columns: ['sha256'] }
+    ]
+  },
+  {
+    name: 'contacts',
+    fields: [
+      { name: 'name', type: 'text' },
+      { name: 'phone', type: 'text' },
+      { name: 'email', type: 'text' },
+      { name: 'username', type: 'text' },
+      { name: 'notes', type: 'text', options: { max: 10000 } },
+      { name: 'attributes', type: 'json' },
+      ...TIMESTAMPS
+    ],
+    indexes: [
+      { columns: ['updated'] }
+    ]
+  },
+  {
+    name: 'chats',
+    fields: [
+      { name: 'platformChatId', type: 'text', required: true },
+      { name: 'source', type: 'text', required: true },
+      { name: 'name', type: 'text' },
+      { name: 'openAIThreadId', type: 'text' },
+      { name: 'autoMode', type: 'bool' },
+      { name: 'responseMode', type: 'text' },
+      { name: 'channel', type: 'text' },
+      { name: 'contactId', type: 'relation', relation: 'contacts', options: { maxSelect: 1 } },
+      ...TIMESTAMPS
+    ],
+    indexes: [
+      { columns: ['platformChatId'], unique: true },
+      { columns: ['source', 'updated'] }
+    ]
+  },
+  {
+    name: 'messages',
+    fields: [
+      { name: 'platformMessageId', type: 'text', required: true },
+      { name: 'source', type: 'text', required: true },
+      { name: 'chatId', type: 'relation', relation: 'chats', required: true, options: { maxSelect: 1, cascadeDelete: true } },
+      { name: 'type', type: 'text', required: true },
+      { name: 'content', type: 'text', options: { max: 100000 } },
+      { name: 'mediaFileId', type: 'relation', relation: 'media', options: { maxSelect: 1 } },
+      { name: 'isIncoming', type: 'bool' },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'senderId', type: 'text', required: true },
+      { name: 'senderName', type: 'text' },
+      { name: 'responseMode', type: 'text' },
+      { name: 'status', type: 'text' },
+      { name: 'error', type: 'text', options: { max: 10000 } },
+      { name: 'attempts', type: 'number' },
+      { name: 'editHistory', type: 'json' },
+      { name: 'editedAt', type: 'date' },
+      { name: 'deleted', type: 'bool' },
+      { name: 'replyToMessageId', type: 'relation', relation: 'messages', options: { maxSelect: 1 } },
+      { name: 'transcription', type: 'text', options: { max: 100000 } },
+      { name: 'redactedAt', type: 'date' },
+      ...TIMESTAMPS
+    ],
+    indexes: [
+      { columns: ['chatId', 'timestamp'] },
+      { columns: ['platformMessageId'] },
+      { columns: ['status', 'updated'] }
+    ]
+  },
+  {
+    name: 'outbound_claims',
+    fields: [
+      { name: 'messageId', type: 'relation', relation: 'messages', required: true, options: { maxSelect: 1, cascadeDelete: true } },
+      { name: 'leaseFrom', type: 'text', required: true },
+      ...TIMESTAMPS
+    ],
+    indexes: [
+      { columns: ['messageId', 'leaseFrom'], unique: true }
+    ]
+  },
+  {
+    name: 'tool_calls',
+    fields: [
+      { name: 'chatId', type: 'relation', relation: 'chats', required: true, options: { maxSelect: 1, cascadeDelete: true } },
+      { name: 'messageId', type: 'relation', relation: 'messages', options: { maxSelect: 1, cascadeDelete: true } },
+      { name: 'tool', type: 'text', required: true },
+      { name: 'arguments', type: 'json' },
+      { name: 'output', type: 'text', options: { max: 100000 } },
+      { name: 'status', type: 'text', required: true },
+      { name: 'error', type: 'text', options: { max: 10000 } },
+      { name: 'durationMs', type: 'number' },
+      { name: 'timestamp', type: 'date', required: true },
+      ...TIMESTAMPS
+    ],
+    indexes: [
+      { columns: ['chatId', 'timestamp'] },
+      { columns: ['messageId'] }
+    ]
+  },
+  {
+    name: 'drafts',
+    fields: [
+      { name: 'chatId', type: 'relation', relation: 'chats', required: true, options: { maxSelect: 1, cascadeDelete: true } },
+      { name: 'source', type: 'text', required: true },
+      { name: 'channel', type: 'text' },
+      { name: 'messageId', type: 'relation', relation: 'messages', options: { maxSelect: 1, cascadeDelete: true } },
+      { name: 'suggestedContent', type: 'text', options: { max: 100000 } },
+      { name: 'content', type: 'text', options: { max: 100000 } },
+      { name: 'status', type: 'text', required: true },
+      { name: 'sentMessageId', type: 'relation', relation: 'messages', options: { maxSelect: 1 } },
+      { name: 'editDistance', type: 'number' },
+      { name: 'visitorId', type: 'text' },
+      { name: 'replyToMessageId', type: 'relation', relation: 'messages', options: { maxSelect: 1 } },
+      { name: 'timestamp', type: 'date', required: true },
+      { name: 'decidedAt', type: 'date' },
+      ...TIMESTAMPS
+    ],
+    indexes: [
+      { columns: ['chatId', 'timestamp'] },
+      { columns: ['source', 'timestamp'] },
+      { columns: ['messageId'] },
+      { columns: ['sentMessageId'] }
+    ]
+  },
+  {
+    name: 'schema_meta',
+    fields: [
+      { name: 'key', type: 'text', required: true },
+      { name: 'value', type: 'json' },
+      ...TIMESTAMPS
+    ],
+    indexes: [
+      { columns: ['key'], unique: true }
+    ]
+  }
+];
+
+// Структура коллекций сверяется с COLLECTIONS при каждом запуске, а изменения данных (заполнение новых полей
+// по старым и т. п.) выполняются шагами по порядку, один раз. Шаги только добавляются в конец списка
+const MIGRATIONS: ((pb: PocketBase) => Promise<void>)[] = [
+  // Режим ответа чатов, созданных до появления responseMode, берется из флага autoMode
+  async pb => {
+    const chats = await pb.collection('chats').getFullList({ filter: "responseMode = ''", fields: 'id,autoMode' });
+    for (const chat of chats) {
+      await pb.collection('chats').update(chat.id, { responseMode: chat.autoMode ? 'auto' : 'manual' });
+    }
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length;
+
+export class SchemaMismatchError extends Error {
+  constructor(public problems: string[]) {
+    super(`PocketBase schema v${SCHEMA_VERSION} cannot be applied automatically:\n${problems.map(p => `  - ${p}`).join('\n')}`);
+    this.name = 'SchemaMismatchError';
+  }
+}
+
+// Сверяет коллекции с COLLECTIONS: недостающие коллекции, поля, индексы и правила создаются,
+// несовместимые различия (другой тип поля, другая связь) останавливают запуск
+export async function syncSchema(pb: PocketBase): Promise<void> {
+  if (SCHEMA_MODE === 'off') return;
+
+  const migrate = SCHEMA_MODE !== 'check';
+  const problems: string[] = [];
+  const changes: string[] = [];
+  const existing = new Map<string, any>(
+    (await pb.collections.getFullList()).map((collection: any) => [collection.name, collection])
+  );
+
+  for (const spec of COLLECTIONS) {
+    if (existing.has(spec.name)) continue;
+
+    if (!migrate) {
+      problems.push(`${spec.name}: collection is missing`);
+      continue;
+    }
+
+    // Связи на еще не созданные коллекции (и на саму себя) добавляются при сверке полей ниже
+    const fields = spec.fields
+      .filter(field => !field.relation || existing.has(field.relation))
+      .map(field => toPbField(field, existing, true));
+    const created = await pb.collections.create({ name: spec.name, type: 'base', fields, ...RULES } as any);
+    existing.set(spec.name, created);
+    changes.push(`${spec.name}: created collection`);
+  }
+
+  for (const spec of COLLECTIONS) {
+    const collection = existing.get(spec.name);
+    if (!collection) continue;
+
+    const diff = diffCollection(spec, collection, existing);
+    problems.push(...diff.problems.map(problem => `${spec.name}.${problem}`));
+    if (!diff.missingFields.length && !diff.missingIndexes.length && !diff.missingRules.length) continue;
+
+    const pending = [
+      ...diff.missingFields.map(field => `field ${field.name} (${field.type})`),
+      ...diff.missingIndexes.map(index => `${index.unique ? 'unique ' : ''}index (${index.columns.join(', ')})`),
+      ...diff.missingRules.map(rule => `rule ${rule}`)
+    ];
+
+    if (!migrate) {
+      problems.push(...pending.map(item => `${spec.name}: missing ${item}`));
+      continue;
+    }
+
+    try {
+      const updated = await pb.collections.update(collection.id, {
+        fields: [...collection.fields, ...diff.missingFields.map(field => toPbField(field, existing, false))],
+        indexes: [
+          ...(collection.indexes || []),
+          ...diff.missingIndexes.map(index => indexSql(spec.name, index))
+        ],
+        ...Object.fromEntries(diff.missingRules.map(rule => [rule, RULES[rule]]))
+      } as any);
+      existing.set(spec.name, updated);
+      changes.push(...pending.map(item => `${spec.name}: added ${item}`));
+    } catch (error: any) {
+      problems.push(`${spec.name}: failed to add ${pending.join(', ')}: ${error?.response?.message || error?.message || error}`);
+    }
+  }
+
+  for (const change of changes) {
+    console.log(`PocketBase schema: ${change}`);
+  }
+
+  if (problems.length) {
+    throw new SchemaMismatchError(problems);
+  }
+
+  await runMigrations(pb, migrate);
+  console.log(`PocketBase schema v${SCHEMA_VERSION} is up to date`);
+}
+
+// Версия сохраняется после каждого шага, поэтому прерванный запуск продолжит со следующего шага
+async function runMigrations(pb: PocketBase, migrate: boolean): Promise<void> {
+  const record = await getVersionRecord(pb);
+  let version = Number(record?.value) || 0;
+
+  if (version > MIGRATIONS.length) {
+    throw new SchemaMismatchError([`schema_meta: applied version ${version} is newer than this build supports`]);
+  }
+  if (version < MIGRATIONS.length && !migrate) {
+    throw new SchemaMismatchError([`schema_meta: migrations ${version + 1}..${MIGRATIONS.length} are not applied (current version ${version})`]);
+  }
+
+  for (; version < MIGRATIONS.length; version++) {
+    await MIGRATIONS[version](pb);
+    await saveVersion(pb, version + 1);
+    console.log(`PocketBase schema: Applied migration ${version + 1}`);
+  }
+}
+
+async function getVersionRecord(pb: PocketBase): Promise<any | null> {
+  try {
+    return await pb.collection('schema_meta').getFirstListItem(pb.filter('key = {:key}', { key: VERSION_KEY }));
+  } catch (error: any) {
+    if (error?.status === 404) return null;
+    throw error;
+  }
+}
+
+// Другой экземпляр мог записать версию одновременно; тогда запись уже есть и обновляется
+async function saveVersion(pb: PocketBase, version: number): Promise<void> {
+  const record = await getVersionRecord(pb);
+  if (record) {
+    await pb.collection('schema_meta').update(record.id, { value: version });
+    return;
+  }
+
+  try {
+    await pb.collection('schema_meta').create({ key: VERSION_KEY, value: version });
+  } catch (error) {
+    const created = await getVersionRecord(pb);
+    if (!created) throw error;
+    await pb.collection('schema_meta').update(created.id, { value: version });
+  }
+}
+
+function diffCollection(spec: CollectionSpec, collection: any, existing: Map<string, any>) {
+  const problems: string[] = [];
+  const missingFields: FieldSpec[] = [];
+  const fields = new Map<string, any>((collection.fields || []).map((field: any) => [field.name, field]));
+
+  for (const field of spec.fields) {
+    const current = fields.get(field.name);
+    if (!current) {
+      missingFields.push(field);
+      continue;
+    }
+
+    if (current.type !== field.type && !field.accepts?.includes(current.type)) {
+      problems.push(`${field.name}: expected ${field.type}, found ${current.type}`);
+      continue;
+    }
+
+    if (field.relation) {
+      const target = existing.get(field.relation);
+      if (current.collectionId !== target?.id) {
+        problems.push(`${field.name}: expected relation to ${field.relation}, found relation to ${current.collectionId}`);
+      } else if (current.maxSelect > 1) {
+        problems.push(`${field.name}: expected single relation, found maxSelect ${current.maxSelect}`);
+      }
+    }
+  }
+
+  const indexes = (collection.indexes || []).map(parseIndex);
+  const missingIndexes = spec.indexes.filter(index => !indexes.some((current: IndexSpec | null) =>
+    current
+    && Boolean(current.unique) === Boolean(index.unique)
+    && current.columns.join(',') === index.columns.join(',')
+  ));
+
+  // Правило null закрывает доступ всем, кроме суперпользователей; так выглядит коллекция, созданная без правил
+  const missingRules = (Object.keys(RULES) as (keyof typeof RULES)[])
+    .filter(rule => RULES[rule] !== null && collection[rule] === null);
+
+  return { problems, missingFields, missingIndexes, missingRules };
+}
+
+// Новые поля в существующих коллекциях не делаются обязательными, чтобы не ломать обновление старых записей
+function toPbField(field: FieldSpec, existing: Map<string, any>, isNewCollection: boolean): Record<string, any> {
+  return {
+    name: field.name,
+    type: field.type,
+    required: isNewCollection && Boolean(field.required),
+    ...(field.relation && { collectionId: existing.get(field.relation)?.id }),
+    ...field.options
+  };
+}
+
+function indexSql(collection: string, index: IndexSpec): string {
+  const name = `idx_${collection}_${index.columns.join('_')}`;
+  return `CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX \`${name}\` ON \`${collection}\` (${index.columns.map(c => `\`${c}\``).join(', ')})`;
+}
+
+function parseIndex(sql: string): IndexSpec | null {
+  const match = /CREATE\s+(UNIQUE\s+)?INDEX.*?\((.+)\)/is.exec(sql);
+  if (!match) return null;
+
+  return {
+    unique: Boolean(match[1]),
+    columns: match[2].split(',').map(column => column.trim().replace(/[`"'\[\]]/g, '').split(/\s+/)[0])
+  };
+}
@@ -0,0 +1,907 @@
+import { Database } from 'bun:sqlite';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { mkdirSync } from 'fs';
+import { unlink } from 'fs/promises';
+import { dirname, extname, join } from 'path';
+import dotenv from 'dotenv';
+import { Chat, Contact, Draft, Message, MessageSource, ResponseMode, ToolCall } from '../models';
+import { DraftQuery, ListResult, MediaFile, MediaInfo, MediaMetadata, MediaVariant, PageCursor, PageQuery, PurgeQuery, PurgeResult, SearchHit, SearchQuery, StorageBackend } from './types';
+import { buildSnippet } from '../utils/snippet';
+
+dotenv.config();
+
+const SQLITE_PATH = process.env.SQLITE_PATH || './data/autoreply.db';
+const SQLITE_MEDIA_DIR = process.env.SQLITE_MEDIA_DIR || './data/media';
+const MEDIA_URL_SECRET = process.env.MEDIA_URL_SECRET || process.env.API_KEY || '';
+const MEDIA_URL_TTL = parseInt(process.env.MEDIA_URL_TTL || '3600');
+const BASE_URL = (process.env.PUBLIC_URL || `http://localhost:${process.env.SERVER_PORT || '3000'}`).replace(/\/$/, '');
+
+let db: Database | undefined;
+
+// Миграции применяются по порядку, номер последней хранится в PRAGMA user_version
+const MIGRATIONS: string[] = [
+  `CREATE TABLE chats (
+    id TEXT PRIMARY KEY,
+    platformChatId TEXT NOT NULL UNIQUE,
+    source TEXT NOT NULL,
+    name TEXT NOT NULL DEFAULT '',
+    openAIThreadId TEXT NOT NULL DEFAULT '',
+    autoMode INTEGER NOT NULL DEFAULT 0,
+    created TEXT NOT NULL,
+    updated TEXT NOT NULL
+  );
+  CREATE INDEX chats_source_updated ON chats (source, updated);
+
+  CREATE TABLE media (
+    id TEXT PRIMARY KEY,
+    file TEXT NOT NULL,
+    mimeType TEXT NOT NULL,
+    platform TEXT NOT NULL,
+    created TEXT NOT NULL
+  );
+
+  CREATE TABLE messages (
+    id TEXT PRIMARY KEY,
+    platformMessageId TEXT NOT NULL DEFAULT '',
+    source TEXT NOT NULL,
+    chatId TEXT NOT NULL REFERENCES chats (id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    content TEXT NOT NULL DEFAULT '',
+    mediaFileId TEXT REFERENCES media (id) ON DELETE SET NULL,
+    isIncoming INTEGER NOT NULL,
+    timestamp TEXT NOT NULL,
+    senderId TEXT NOT NULL,
+    senderName TEXT,
+    responseMode TEXT,
+    status TEXT,
+    error TEXT,
+    editHistory TEXT,
+    editedAt TEXT,
+    deleted INTEGER NOT NULL DEFAULT 0,
+    replyToMessageId TEXT,
+    created TEXT NOT NULL
+  );
+  CREATE INDEX messages_chat_timestamp ON messages (chatId, timestamp);
+  CREATE INDEX messages_platform_id ON messages (platformMessageId);`,
+
+  // Полнотекстовый индекс по тексту сообщений и расшифровкам медиа
+  `ALTER TABLE messages ADD COLUMN transcription TEXT;
+  CREATE VIRTUAL TABLE messages_fts USING fts5(content, transcription, content='messages', content_rowid='rowid');
+  CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages BEGIN
+    INSERT INTO messages_fts (rowid, content, transcription) VALUES (new.rowid, new.content, new.transcription);
+  END;
+  CREATE TRIGGER messages_fts_delete AFTER DELETE ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, content, transcription) VALUES ('delete', old.rowid, old.content, old.transcription);
+  END;
+  CREATE TRIGGER messages_fts_update AFTER UPDATE OF content, transcription ON messages BEGIN
+    INSERT INTO messages_fts (messages_fts, rowid, content, transcription) VALUES ('delete', old.rowid, old.content, old.transcription);
+    INSERT INTO messages_fts (rowid, content, transcription) VALUES (new.rowid, new.content, new.transcription);
+  END;
+  INSERT INTO messages_fts (messages_fts) VALUES ('rebuild');
+  CREATE INDEX messages_timestamp ON messages (timestamp);`,
+
+  // Время изменения сообщения для инкрементальной синхронизации
+  `ALTER TABLE messages ADD COLUMN updated TEXT;
+  UPDATE messages SET updated = created;
+  CREATE INDEX messages_chat_updated ON messages (chatId, updated);`,
+
+  `ALTER TABLE messages ADD COLUMN redactedAt TEXT;
+  CREATE INDEX messages_sender ON messages (senderId);`,
+
+  `CREATE TABLE contacts (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL DEFAULT '',
+    phone TEXT,
+    email TEXT,
+    username TEXT,
+    notes TEXT,
+    attributes TEXT,
+    created TEXT NOT NULL,
+    updated TEXT NOT NULL
+  );
+  CREATE INDEX contacts_updated ON contacts (updated);
+  ALTER TABLE chats ADD COLUMN contactId TEXT REFERENCES contacts (id) ON DELETE SET NULL;
+  CREATE INDEX chats_contact ON chats (contactId);`,
+
+  `ALTER TABLE media ADD COLUMN sha256 TEXT;
+  ALTER TABLE media ADD COLUMN size INTEGER;
+  ALTER TABLE media ADD COLUMN width INTEGER;
+  ALTER TABLE media ADD COLUMN height INTEGER;
+  ALTER TABLE media ADD COLUMN duration REAL;
+  ALTER TABLE media ADD COLUMN thumbnail TEXT;
+  CREATE INDEX media_sha256 ON media (sha256);`,
+
+  `CREATE TABLE tool_calls (
+    id TEXT PRIMARY KEY,
+    chatId TEXT NOT NULL REFERENCES chats (id) ON DELETE CASCADE,
+    messageId TEXT REFERENCES messages (id) ON DELETE CASCADE,
+    tool TEXT NOT NULL,
+    arguments TEXT,
+    output TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL,
+    error TEXT,
+    durationMs INTEGER NOT NULL DEFAULT 0,
+    timestamp TEXT NOT NULL,
+    created TEXT NOT NULL
+  );
+  CREATE INDEX tool_calls_chat_timestamp ON tool_calls (chatId, timestamp);
+  CREATE INDEX tool_calls_message ON tool_calls (messageId);`,
+
+  // Режим ответа чата вместо флага autoMode (флаг поддерживается для совместимости) и черновики режима suggest
+  `ALTER TABLE chats ADD COLUMN responseMode TEXT NOT NULL DEFAULT 'manual';
+  UPDATE chats SET responseMode = 'auto' WHERE autoMode = 1;
+  CREATE TABLE drafts (
+    id TEXT PRIMARY KEY,
+    chatId TEXT NOT NULL REFERENCES chats (id) ON DELETE CASCADE,
+    source TEXT NOT NULL,
+    messageId TEXT REFERENCES messages (id) ON DELETE CASCADE,
+    suggestedContent TEXT NOT NULL DEFAULT '',
+    content TEXT NOT NULL DEFAULT '',
+    status TEXT NOT NULL,
+    sentMessageId TEXT REFERENCES messages (id) ON DELETE SET NULL,
+    editDistance INTEGER,
+    visitorId TEXT,
+    replyToMessageId TEXT,
+    timestamp TEXT NOT NULL,
+    decidedAt TEXT,
+    created TEXT NOT NULL,
+    updated TEXT NOT NULL
+  );
+  CREATE INDEX drafts_chat_timestamp ON drafts (chatId, timestamp);
+  CREATE INDEX drafts_source_timestamp ON drafts (source, timestamp);
+  CREATE INDEX drafts_message ON drafts (messageId);
+  CREATE INDEX drafts_sent_message ON drafts (sentMessageId);`,
+
+  // Канал, через который идет переписка в чате
+  `ALTER TABLE chats ADD COLUMN channel TEXT;`,
+
+  // Канал, через который уходит одобренный черновик
+  `ALTER TABLE drafts ADD COLUMN channel TEXT;`,
+
+  // Счетчик попыток отправки; зависшие исходящие ищутся по статусу и времени изменения
+  `ALTER TABLE messages ADD COLUMN attempts INTEGER;
+  CREATE INDEX messages_status_updated ON messages (status, updated);`
+];
+
+const MESSAGE_COLUMNS = [
+  'platformMessageId', 'source', 'chatId', 'type', 'content', 'mediaFileId', 'isIncoming', 'timestamp',
+  'senderId', 'senderName', 'responseMode', 'status', 'error', 'attempts', 'editHistory', 'editedAt', 'deleted', 'replyToMessageId',
+  'transcription', 'redactedAt'
+];
+
+const DRAFT_COLUMNS = [
+  'chatId', 'source', 'channel', 'messageId', 'suggestedContent', 'content', 'status', 'sentMessageId', 'editDistance',
+  'visitorId', 'replyToMessageId', 'timestamp', 'decidedAt'
+];
+
+export const sqliteStorage: StorageBackend = {
+  name: "sqlite",
+  init: async () => openDatabase(),
+  isConnected: () => Boolean(db),
+  saveMessage: async (msg) => saveMessage(msg),
+  updateMessage: async (id, data) => updateMessage(id, data),
+  getMessage: async (id) => getMessage(id),
+  findMessageByPlatformId: async (platformMessageId, chatId) => findMessageByPlatformId(platformMessageId, chatId),
+  getLastIncomingMessage: async (chatId) => getLastIncomingMessage(chatId),
+  getQueuedMessages: async (staleBefore) => getQueuedMessages(staleBefore),
+  claimOutbound: async (message) => claimOutbound(message),
+  getMessages: async (chatId, query) => getMessages(chatId, query),
+  searchMessages: async (query) => searchMessages(query),
+  purgeMessages: (query) => purgeMessages(query),
+  saveChat: async (chat) => saveChat(chat),
+  updateResponseMode: async (chatId, mode) => { updateResponseMode(chatId, mode); },
+  updateChatChannel: async (chatId, channel) => { updateChatChannel(chatId, channel); },
+  findOrCreateChat: async (id, source, name) => findOrCreateChat(id, source, name),
+  getChats: async (source, query) => getChats(source, query),
+  getChatById: async (chatId) => getChatById(chatId),
+  findChatByPlatformId: async (platformChatId, source) => findChatByPlatformId(platformChatId, source),
+  deleteChat: (chatId) => deleteChat(chatId),
+  getChatsByContact: async (contactId) => getChatsByContact(contactId),
+  saveContact: async (contact) => saveContact(contact),
+  getContact: async (contactId) => getContact(contactId),
+  getContacts: async (query) => getContacts(query),
+  deleteContact: async (contactId) => { deleteContact(contactId); },
+  saveToolCall: async (call) => saveToolCall(call),
+  getToolCalls: async (chatId, query) => getToolCalls(chatId, query),
+  saveDraft: async (draft) => saveDraft(draft),
+  updateDraft: async (id, data) => updateDraft(id, data),
+  getDraft: async (id) => getDraft(id),
+  getDrafts: async (query, page) => getDrafts(query, page),
+  saveMediaFile: (fileData, filename, contentType, platform, metadata, thumbnail) =>
+    saveMediaFile(fileData, filename, contentType, platform, metadata, thumbnail),
+  findMediaByHash: async (sha256) => findMediaByHash(sha256),
+  getMediaInfo: async (mediaId) => getMediaInfo(mediaId),
+  getMediaFile: (mediaId, variant) => getMediaFile(mediaId, variant),
+  getMediaUrl: async (mediaId, variant) => getMediaUrl(mediaId, variant),
+  verifyMediaToken: (mediaId, token) => verifyMediaToken(mediaId, token)
+};
+
+function openDatabase() {
+  if (db) return;
+
+  mkdirSync(dirname(SQLITE_PATH), { recursive: true });
+  mkdirSync(SQLITE_MEDIA_DIR, { recursive: true });
+
+  db = new Database(SQLITE_PATH, { create: true });
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('PRAGMA foreign_keys = ON');
+  migrate(db);
+  console.log(`SQLite: Opened ${SQLITE_PATH}`);
+}
+
+function migrate(database: Database) {
+  const { user_version: version } = database.query('PRAGMA user_version').get() as { user_version: number };
+
+  for (let i = version; i < MIGRATIONS.length; i++) {
+    database.transaction(() => {
+      database.exec(MIGRATIONS[i]);
+      database.exec(`PRAGMA user_version = ${i + 1}`);
+    })();
+    console.log(`SQLite: Applied migration ${i + 1}`);
+  }
+}
+
+function getDb(): Database {
+  if (!db) {
+    throw new Error('SQLite storage is not initialized');
+  }
+  return db;
+}
+
+function toMessage(row: any): Message {
+  const editHistory = row.editHistory ? JSON.parse(row.editHistory) : [];
+
+  return {
+    id: row.id,
+    platformMessageId: row.platformMessageId,
+    source: row.source as MessageSource,
+    chatId: row.chatId,
+    type: row.type,
+    content: row.content,
+    mediaFileId: row.mediaFileId || undefined,
+    isIncoming: Boolean(row.isIncoming),
+    timestamp: new Date(row.timestamp),
+    senderId: row.senderId,
+    senderName: row.senderName ?? undefined,
+    responseMode: row.responseMode,
+    ...(row.status && { status: row.status }),
+    ...(row.error && { error: row.error }),
+    ...(row.attempts && { attempts: row.attempts }),
+    ...(editHistory.length && { editHistory }),
+    ...(row.editedAt && { editedAt: new Date(row.editedAt) }),
+    ...(row.deleted && { deleted: true }),
+    ...(row.replyToMessageId && { replyToMessageId: row.replyToMessageId }),
+    ...(row.transcription && { transcription: row.transcription }),
+    ...(row.updated && { updated: new Date(row.updated) }),
+    ...(row.redactedAt && { redactedAt: new Date(row.redactedAt) })
+  };
+}
+
+function toChat(row: any): Chat {
+  return {
+    id: row.id,
+    platformChatId: row.platformChatId,
+    source: row.source as MessageSource,
+    name: row.name,
+    updated: new Date(row.updated),
+    openAIThreadId: row.openAIThreadId,
+    autoMode: row.responseMode === 'auto',
+    responseMode: row.responseMode,
+    ...(row.channel && { channel: row.channel }),
+    ...(row.contactId && { contactId: row.contactId })
+  };
+}
+
+function toToolCall(row: any): ToolCall {
+  return {
+    id: row.id,
+    chatId: row.chatId,
+    ...(row.messageId && { messageId: row.messageId }),
+    tool: row.tool,
+    arguments: row.arguments ? JSON.parse(row.arguments) : {},
+    output: row.output,
+    status: row.status,
+    ...(row.error && { error: row.error }),
+    durationMs: row.durationMs,
+    timestamp: new Date(row.timestamp)
+  };
+}
+
+function toDraft(row: any): Draft {
+  return {
+    id: row.id,
+    chatId: row.chatId,
+    source: row.source as MessageSource,
+    ...(row.channel && { channel: row.channel }),
+    ...(row.messageId && { messageId: row.messageId }),
+    suggestedContent: row.suggestedContent,
+    content: row.content,
+    status: row.status,
+    ...(row.sentMessageId && { sentMessageId: row.sentMessageId }),
+    ...(row.editDistance !== null && { editDistance: row.editDistance }),
+    ...(row.visitorId && { visitorId: row.visitorId }),
+    ...(row.replyToMessageId && { replyToMessageId: row.replyToMessageId }),
+    timestamp: new Date(row.timestamp),
+    updated: new Date(row.updated),
+    ...(row.decidedAt && { decidedAt: new Date(row.decidedAt) })
+  };
+}
+
+function toContact(row: any): Contact {
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.phone && { phone: row.phone }),
+    ...(row.email && { email: row.email }),
+    ...(row.username && { username: row.username }),
+    ...(row.notes && { notes: row.notes }),
+    ...(row.attributes && { attributes: JSON.parse(row.attributes) }),
+    updated: new Date(row.updated)
+  };
+}
+
+// Значения модели в формат колонок: даты — ISO-строки, булевы — 0/1, массивы — JSON
+function toColumn(value: any): any {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (Array.isArray(value)) return JSON.stringify(value);
+  return value;
+}
+
+function pickColumns(data: Record<string, any>, allowed: string[]): [string, any][] {
+  return Object.entries(data)
+    .filter(([key]) => allowed.includes(key))
+    .map(([key, value]) => [key, toColumn(value)]);
+}
+
+function messageColumns(data: Partial<Message>): [string, any][] {
+  return pickColumns(data, MESSAGE_COLUMNS);
+}
+
+function saveMessage(msg: Message): Message {
+  const id = randomUUID();
+  const columns = messageColumns({ deleted: false, ...msg });
+  const names = ['id', 'created', 'updated', ...columns.map(([key]) => key)];
+  const now = new Date().toISOString();
+
+  getDb()
+    .query(`INSERT INTO messages (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`)
+    .run(id, now, now, ...columns.map(([, value]) => value));
+
+  return getMessage(id)!;
+}
+
+function updateMessage(id: string, data: Partial<Message>): Message {
+  const columns = messageColumns(data);
+  if (columns.length) {
+    columns.push(['updated', new Date().toISOString()]);
+    getDb()
+      .query(`UPDATE messages SET ${columns.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ?`)
+      .run(...columns.map(([, value]) => value), id);
+  }
+
+  const message = getMessage(id);
+  if (!message) {
+    throw new Error(`Message with ID ${id} not found`);
+  }
+  return message;
+}
+
+function getMessage(id: string): Message | null {
+  const row = getDb().query('SELECT * FROM messages WHERE id = ?').get(id);
+  return row ? toMessage(row) : null;
+}
+
+function findMessageByPlatformId(platformMessageId: string, chatId?: string): Message | null {
+  const row = chatId
+    ? getDb().query('SELECT * FROM messages WHERE platformMessageId = ? AND chatId = ? LIMIT 1').get(platformMessageId, chatId)
+    : getDb().query('SELECT * FROM messages WHERE platformMessageId = ? LIMIT 1').get(platformMessageId);
+  return row ? toMessage(row) : null;
+}
+
+function getLastIncomingMessage(chatId: string): Message | null {
+  const row = getDb()
+    .query('SELECT * FROM messages WHERE chatId = ? AND isIncoming = 1 ORDER BY timestamp DESC LIMIT 1')
+    .get(chatId);
+  return row ? toMessage(row) : null;
+}
+
+function getQueuedMessages(staleBefore: Date): Message[] {
+  return getDb()
+    .query("SELECT * FROM messages WHERE isIncoming = 0 AND status = 'queued' AND updated < ? ORDER BY timestamp, id")
+    .all(staleBefore.toISOString())
+    .map(toMessage);
+}
+
+// Условное обновление атомарно: второй экземпляр уже не найдет запись с прежним updated
+function claimOutbound(message: Message): boolean {
+  const result = getDb()
+    .query("UPDATE messages SET updated = ? WHERE id = ? AND status = 'queued' AND updated = ?")
+    .run(new Date().toISOString(), message.id!, message.updated!.toISOString());
+  return result.changes === 1;
+}
+
+// Условия курсоров и updatedSince; column — колонка, по которой отсортирован список
+function pageConditions(column: string, query: PageQuery): [string[], any[]] {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  const addCursor = (operator: '<' | '>', cursor: PageCursor) => {
+    const date = cursor.date.toISOString();
+    if (cursor.id) {
+      conditions.push(`(${column} ${operator} ? OR (${column} = ? AND id ${operator} ?))`);
+      params.push(date, date, cursor.id);
+    } else {
+      conditions.push(`${column} ${operator} ?`);
+      params.push(date);
+    }
+  };
+
+  if (query.before) addCursor('<', query.before);
+  if (query.after) addCursor('>', query.after);
+  if (query.updatedSince) {
+    conditions.push('updated >= ?');
+    params.push(query.updatedSince.toISOString());
+  }
+  return [conditions, params];
+}
+
+function getMessages(chatId: string, query: PageQuery): ListResult<Message> {
+  const [conditions, params] = pageConditions('timestamp', query);
+  const where = `WHERE ${['chatId = ?', ...conditions].join(' AND ')}`;
+
+  // Только с before берутся ближайшие к курсору, то есть самые новые из более ранних сообщений
+  const nearestBefore = Boolean(query.before && !query.after);
+  const rows = getDb()
+    .query(`SELECT * FROM messages ${where} ORDER BY ${nearestBefore ? 'timestamp DESC, id DESC' : 'timestamp, id'} LIMIT ?`)
+    .all(chatId, ...params, query.limit);
+  const { total } = getDb().query(`SELECT COUNT(*) AS total FROM messages ${where}`).get(chatId, ...params) as { total: number };
+
+  const items = rows.map(toMessage);
+  return { items: nearestBefore ? items.reverse() : items, totalItems: total };
+}
+
+// Каждое слово ищется как префикс: "достав" найдет "доставка" и "доставили"
+function ftsQuery(terms: string[]): string {
+  return terms.map(term => `"${term.replace(/"/g, '""')}"*`).join(' ');
+}
+
+function searchMessages(query: SearchQuery): ListResult<SearchHit> {
+  const conditions = ['messages_fts MATCH ?'];
+  const params: any[] = [ftsQuery(query.terms)];
+
+  if (query.source) { conditions.push('m.source = ?'); params.push(query.source); }
+  if (query.chatId) { conditions.push('m.chatId = ?'); params.push(query.chatId); }
+  if (query.from) { conditions.push('m.timestamp >= ?'); params.push(query.from.toISOString()); }
+  if (query.to) { conditions.push('m.timestamp <= ?'); params.push(query.to.toISOString()); }
+  if (query.isIncoming !== undefined) { conditions.push('m.isIncoming = ?'); params.push(query.isIncoming ? 1 : 0); }
+  if (query.responseMode) { conditions.push('m.responseMode = ?'); params.push(query.responseMode); }
+
+  const from = `FROM messages_fts JOIN messages m ON m.rowid = messages_fts.rowid WHERE ${conditions.join(' AND ')}`;
+  const rows = getDb()
+    .query(`SELECT m.* ${from} ORDER BY m.timestamp DESC LIMIT ? OFFSET ?`)
+    .all(...params, query.limit, (query.page - 1) * query.limit);
+  const { total } = getDb().query(`SELECT COUNT(*) AS total ${from}`).get(...params) as { total: number };
+
+  const chats = new Map<string, Chat | null>();
+  const items = rows.map(row => {
+    const message = toMessage(row);
+    if (!chats.has(message.chatId)) {
+      chats.set(message.chatId, getChatById(message.chatId));
+    }
+    return {
+      message,
+      chat: chats.get(message.chatId) ?? null,
+      snippet: buildSnippet(query.terms, [message.content, message.transcription])
+    };
+  });
+
+  return { items, totalItems: total };
+}
+
+async function purgeMessages(query: PurgeQuery): Promise<PurgeResult> {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  if (query.source) { conditions.push('source = ?'); params.push(query.source); }
+  if (query.chatId) { conditions.push('chatId = ?'); params.push(query.chatId); }
+  if (query.senderId) { conditions.push('senderId = ?'); params.push(query.senderId); }
+  if (query.olderThan) { conditions.push('timestamp < ?'); params.push(query.olderThan.toISOString()); }
+  // Уже обезличенные заглушки повторно не обрабатываются
+  if (query.anonymize) { conditions.push('redactedAt IS NULL'); }
+
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+  const rows = getDb().query(`SELECT id, mediaFileId FROM messages ${where}`).all(...params) as { id: string, mediaFileId: string | null }[];
+  const mediaIds = [...new Set(rows.map(row => row.mediaFileId).filter((id): id is string => Boolean(id)))];
+  const media: MediaRecord[] = [];
+
+  const now = new Date().toISOString();
+  getDb().transaction(() => {
+    for (const row of rows) {
+      if (query.anonymize) {
+        getDb()
+          .query(`UPDATE messages SET content = '', transcription = NULL, mediaFileId = NULL, senderId = 'anonymized', senderName = NULL,
+            editHistory = NULL, error = NULL, redactedAt = ?, updated = ? WHERE id = ?`)
+          .run(now, now, row.id);
+        // Аргументы и результаты инструментов и черновики ответов тоже могут содержать персональные данные
+        getDb().query('DELETE FROM tool_calls WHERE messageId = ?').run(row.id);
+        getDb().query('DELETE FROM drafts WHERE messageId = ? OR sentMessageId = ?').run(row.id, row.id);
+      } else {
+        getDb().query('DELETE FROM messages WHERE id = ?').run(row.id);
+      }
+    }
+    // Одинаковые файлы хранятся один раз, поэтому файл удаляется, только если на него не ссылаются другие сообщения
+    for (const mediaId of mediaIds) {
+      const record = getMediaRecord(mediaId);
+      if (!record || getDb().query('SELECT 1 FROM messages WHERE mediaFileId = ? LIMIT 1').get(mediaId)) continue;
+      getDb().query('DELETE FROM media WHERE id = ?').run(mediaId);
+      media.push(record);
+    }
+  })();
+
+  for (const record of media) {
+    await unlink(mediaPath(record.id, record.file)).catch(() => { });
+    await unlink(thumbnailPath(record.id)).catch(() => { });
+  }
+
+  return { messages: rows.length, media: media.length };
+}
+
+function saveChat(chat: Chat): Chat {
+  const now = new Date().toISOString();
+  const values = [
+    chat.platformChatId ?? '',
+    chat.source,
+    chat.name || '',
+    chat.openAIThreadId || '',
+    chat.responseMode === 'auto' ? 1 : 0,
+    chat.responseMode,
+    chat.channel || null,
+    chat.contactId || null
+  ];
+
+  if (chat.id) {
+    getDb()
+      .query('UPDATE chats SET platformChatId = ?, source = ?, name = ?, openAIThreadId = ?, autoMode = ?, responseMode = ?, channel = ?, contactId = ?, updated = ? WHERE id = ?')
+      .run(...values, now, chat.id);
+    const saved = getChatById(chat.id);
+    if (!saved) {
+      throw new Error(`Chat with ID ${chat.id} not found`);
+    }
+    return saved;
+  }
+
+  const id = randomUUID();
+  getDb()
+    .query('INSERT INTO chats (id, platformChatId, source, name, openAIThreadId, autoMode, responseMode, channel, contactId, created, updated) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(id, ...values, now, now);
+  return getChatById(id)!;
+}
+
+function updateResponseMode(chatId: string, mode: ResponseMode) {
+  getDb()
+    .query('UPDATE chats SET autoMode = ?, responseMode = ?, updated = ? WHERE id = ?')
+    .run(mode === 'auto' ? 1 : 0, mode, new Date().toISOString(), chatId);
+}
+
+function updateChatChannel(chatId: string, channel: string) {
+  getDb().query('UPDATE chats SET channel = ? WHERE id = ?').run(channel, chatId);
+}
+
+function findOrCreateChat(id: string, source?: MessageSource, name?: string): Chat | null {
+  try {
+    const row = getDb().query('SELECT * FROM chats WHERE platformChatId = ?').get(id);
+    if (row) {
+      return toChat(row);
+    }
+
+    return saveChat({
+      platformChatId: id,
+      source: source!,
+      name: name || "Unknown",
+      openAIThreadId: "",
+      updated: new Date(),
+      autoMode: false,
+      responseMode: 'manual'
+    });
+  } catch (error) {
+    console.error(`Error in find chat for ${source} sourceId ${id}:`, error);
+    return null;
+  }
+}
+
+function getChats(source: string | undefined, query: PageQuery): ListResult<Chat> {
+  const [conditions, params] = pageConditions('updated', query);
+  if (source) {
+    conditions.push('source = ?');
+    params.push(source);
+  }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  // Только с after берутся ближайшие к курсору, то есть самые старые из более новых чатов
+  const nearestAfter = Boolean(query.after && !query.before);
+  const rows = getDb()
+    .query(`SELECT * FROM chats ${where} ORDER BY ${nearestAfter ? 'updated, id' : 'updated DESC, id DESC'} LIMIT ?`)
+    .all(...params, query.limit);
+  const { total } = getDb().query(`SELECT COUNT(*) AS total FROM chats ${where}`).get(...params) as { total: number };
+
+  const items = rows.map(toChat);
+  return { items: nearestAfter ? items.reverse() : items, totalItems: total };
+}
+
+function getChatById(chatId: string): Chat | null {
+  const row = getDb().query('SELECT * FROM chats WHERE id = ?').get(chatId);
+  return row ? toChat(row) : null;
+}
+
+function findChatByPlatformId(platformChatId: string, source?: MessageSource): Chat | null {
+  const row = source
+    ? getDb().query('SELECT * FROM chats WHERE platformChatId = ? AND source = ?').get(platformChatId, source)
+    : getDb().query('SELECT * FROM chats WHERE platformChatId = ?').get(platformChatId);
+  return row ? toChat(row) : null;
+}
+
+async function deleteChat(chatId: string): Promise<PurgeResult> {
+  const result = await purgeMessages({ chatId });
+  getDb().query('DELETE FROM chats WHERE id = ?').run(chatId);
+  return result;
+}
+
+function getChatsByContact(contactId: string): Chat[] {
+  return getDb().query('SELECT * FROM chats WHERE contactId = ? ORDER BY updated DESC').all(contactId).map(toChat);
+}
+
+function saveContact(contact: Contact): Contact {
+  const now = new Date().toISOString();
+  const values = [
+    contact.name || '',
+    contact.phone || null,
+    contact.email || null,
+    contact.username || null,
+    contact.notes || null,
+    contact.attributes && Object.keys(contact.attributes).length ? JSON.stringify(contact.attributes) : null
+  ];
+
+  if (contact.id) {
+    getDb()
+      .query('UPDATE contacts SET name = ?, phone = ?, email = ?, username = ?, notes = ?, attributes = ?, updated = ? WHERE id = ?')
+      .run(...values, now, contact.id);
+    const saved = getContact(contact.id);
+    if (!saved) {
+      throw new Error(`Contact with ID ${contact.id} not found`);
+    }
+    return saved;
+  }
+
+  const id = randomUUID();
+  getDb()
+    .query('INSERT INTO contacts (id, name, phone, email, username, notes, attributes, created, updated) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)')
+    .run(id, ...values, now, now);
+  return getContact(id)!;
+}
+
+function getContact(contactId: string): Contact | null {
+  const row = getDb().query('SELECT * FROM contacts WHERE id = ?').get(contactId);
+  return row ? toContact(row) : null;
+}
+
+function getContacts(query: PageQuery): ListResult<Contact> {
+  const [conditions, params] = pageConditions('updated', query);
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const nearestAfter = Boolean(query.after && !query.before);
+  const rows = getDb()
+    .query(`SELECT * FROM contacts ${where} ORDER BY ${nearestAfter ? 'updated, id' : 'updated DESC, id DESC'} LIMIT ?`)
+    .all(...params, query.limit);
+  const { total } = getDb().query(`SELECT COUNT(*) AS total FROM contacts ${where}`).get(...params) as { total: number };
+
+  const items = rows.map(toContact);
+  return { items: nearestAfter ? items.reverse() : items, totalItems: total };
+}
+
+function deleteContact(contactId: string) {
+  getDb().query('DELETE FROM contacts WHERE id = ?').run(contactId);
+}
+
+function saveToolCall(call: ToolCall): ToolCall {
+  const id = randomUUID();
+  getDb()
+    .query(`INSERT INTO tool_calls (id, chatId, messageId, tool, arguments, output, status, error, durationMs, timestamp, created)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+    .run(
+      id, call.chatId, call.messageId ?? null, call.tool, JSON.stringify(call.arguments), call.output, call.status,
+      call.error ?? null, call.durationMs, call.timestamp.toISOString(), new Date().toISOString()
+    );
+  return toToolCall(getDb().query('SELECT * FROM tool_calls WHERE id = ?').get(id));
+}
+
+function getToolCalls(chatId: string, query: PageQuery): ListResult<ToolCall> {
+  // У вызовов нет updated: журнал не изменяется, поэтому updatedSince отбирает по времени вызова
+  const [conditions, params] = pageConditions('timestamp', { ...query, updatedSince: undefined });
+  if (query.updatedSince) {
+    conditions.push('timestamp >= ?');
+    params.push(query.updatedSince.toISOString());
+  }
+  const where = `WHERE ${['chatId = ?', ...conditions].join(' AND ')}`;
+
+  const nearestBefore = Boolean(query.before && !query.after);
+  const rows = getDb()
+    .query(`SELECT * FROM tool_calls ${where} ORDER BY ${nearestBefore ? 'timestamp DESC, id DESC' : 'timestamp, id'} LIMIT ?`)
+    .all(chatId, ...params, query.limit);
+  const { total } = getDb().query(`SELECT COUNT(*) AS total FROM tool_calls ${where}`).get(chatId, ...params) as { total: number };
+
+  const items = rows.map(toToolCall);
+  return { items: nearestBefore ? items.reverse() : items, totalItems: total };
+}
+
+function saveDraft(draft: Draft): Draft {
+  const id = randomUUID();
+  const columns = pickColumns(draft, DRAFT_COLUMNS);
+  const names = ['id', 'created', 'updated', ...columns.map(([key]) => key)];
+  const now = new Date().toISOString();
+
+  getDb()
+    .query(`INSERT INTO drafts (${names.join(', ')}) VALUES (${names.map(() => '?').join(', ')})`)
+    .run(id, now, now, ...columns.map(([, value]) => value));
+
+  return getDraft(id)!;
+}
+
+function updateDraft(id: string, data: Partial<Draft>): Draft {
+  const columns = pickColumns(data, DRAFT_COLUMNS);
+  if (columns.length) {
+    columns.push(['updated', new Date().toISOString()]);
+    getDb()
+      .query(`UPDATE drafts SET ${columns.map(([key]) => `${key} = ?`).join(', ')} WHERE id = ?`)
+      .run(...columns.map(([, value]) => value), id);
+  }
+
+  const draft = getDraft(id);
+  if (!draft) {
+    throw new Error(`Draft with ID ${id} not found`);
+  }
+  return draft;
+}
+
+function getDraft(id: string): Draft | null {
+  const row = getDb().query('SELECT * FROM drafts WHERE id = ?').get(id);
+  return row ? toDraft(row) : null;
+}
+
+function getDrafts(query: DraftQuery, page: PageQuery): ListResult<Draft> {
+  const [conditions, params] = pageConditions('timestamp', page);
+  if (query.chatId) { conditions.push('chatId = ?'); params.push(query.chatId); }
+  if (query.source) { conditions.push('source = ?'); params.push(query.source); }
+  if (query.status) { conditions.push('status = ?'); params.push(query.status); }
+  const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  const nearestBefore = Boolean(page.before && !page.after);
+  const rows = getDb()
+    .query(`SELECT * FROM drafts ${where} ORDER BY ${nearestBefore ? 'timestamp DESC, id DESC' : 'timestamp, id'} LIMIT ?`)
+    .all(...params, page.limit);
+  const { total } = getDb().query(`SELECT COUNT(*) AS total FROM drafts ${where}`).get(...params) as { total: number };
+
+  const items = rows.map(toDraft);
+  return { items: nearestBefore ? items.reverse() : items, totalItems: total };
+}
+
+// Файл хранится на диске под именем <id><расширение>, исходное имя — в колонке file
+interface MediaRecord {
+  id: string;
+  file: string;
+  mimeType: string;
+  sha256: string | null;
+  size: number | null;
+  width: number | null;
+  height: number | null;
+  duration: number | null;
+  thumbnail: string | null;
+}
+
+async function saveMediaFile(
+  fileData: Blob, filename: string, contentType: string, platform: string, metadata?: MediaMetadata, thumbnail?: Blob
+): Promise<string> {
+  const id = randomUUID();
+  await Bun.write(mediaPath(id, filename), fileData);
+  if (thumbnail) {
+    await Bun.write(thumbnailPath(id), thumbnail);
+  }
+
+  try {
+    getDb()
+      .query(`INSERT INTO media (id, file, mimeType, platform, sha256, size, width, height, duration, thumbnail, created)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+      .run(
+        id, filename, contentType, platform,
+        metadata?.sha256 ?? null, metadata?.size ?? fileData.size, metadata?.width ?? null, metadata?.height ?? null, metadata?.duration ?? null,
+        thumbnail ? `thumb_${id}.jpg` : null,
+        new Date().toISOString()
+      );
+  } catch (error) {
+    await unlink(mediaPath(id, filename)).catch(() => { });
+    await unlink(thumbnailPath(id)).catch(() => { });
+    throw error;
+  }
+
+  return id;
+}
+
+function mediaPath(id: string, filename: string): string {
+  return join(SQLITE_MEDIA_DIR, `${id}${extname(filename)}`);
+}
+
+function thumbnailPath(id: string): string {
+  return join(SQLITE_MEDIA_DIR, `${id}.thumb.jpg`);
+}
+
+function getMediaRecord(mediaId: string): MediaRecord | null {
+  return getDb().query('SELECT * FROM media WHERE id = ?').get(mediaId) as MediaRecord | null;
+}
+
+function findMediaByHash(sha256: string): string | null {
+  const row = getDb().query('SELECT id FROM media WHERE sha256 = ? LIMIT 1').get(sha256) as { id: string } | null;
+  return row?.id ?? null;
+}
+
+function getMediaInfo(mediaId: string): MediaInfo | null {
+  const record = getMediaRecord(mediaId);
+  if (!record) {
+    return null;
+  }
+
+  return {
+    id: record.id,
+    fileName: record.file,
+    mimeType: record.mimeType,
+    hasThumbnail: Boolean(record.thumbnail),
+    ...(record.sha256 && { sha256: record.sha256 }),
+    ...(record.size !== null && { size: record.size }),
+    ...(record.width !== null && { width: record.width }),
+    ...(record.height !== null && { height: record.height }),
+    ...(record.duration !== null && { duration: record.duration })
+  };
+}
+
+async function getMediaFile(mediaId: string, variant: MediaVariant = 'original'): Promise<MediaFile | null> {
+  const record = getMediaRecord(mediaId);
+  if (!record || (variant === 'thumbnail' && !record.thumbnail)) {
+    return null;
+  }
+
+  const media = variant === 'thumbnail'
+    ? { file: Bun.file(thumbnailPath(record.id), { type: 'image/jpeg' }), fileName: record.thumbnail!, mimeType: 'image/jpeg' }
+    : { file: Bun.file(mediaPath(record.id, record.file), { type: record.mimeType }), fileName: record.file, mimeType: record.mimeType };
+  if (!(await media.file.exists())) {
+    throw new Error(`File for media ${mediaId} is missing on disk`);
+  }
+
+  return media;
+}
+
+function signMedia(mediaId: string, expires: number): string {
+  return createHmac('sha256', MEDIA_URL_SECRET).update(`${mediaId}.${expires}`).digest('hex');
+}
+
+// Превью раздается по тому же токену, что и оригинал, по пути /api/files/media/<id>/thumbnail/<имя>
+function getMediaUrl(mediaId: string, variant: MediaVariant = 'original'): string | null {
+  const record = getMediaRecord(mediaId);
+  if (!record || (variant === 'thumbnail' && !record.thumbnail)) {
+    return null;
+  }
+
+  const expires = Math.floor(Date.now() / 1000) + MEDIA_URL_TTL;
+  const token = `${expires}.${signMedia(mediaId, expires)}`;
+  const path = variant === 'thumbnail' ? `thumbnail/${encodeURIComponent(record.thumbnail!)}` : encodeURIComponent(record.file);
+  return `${BASE_URL}/api/files/media/${mediaId}/${path}?token=${token}`;
+}
+
+function verifyMediaToken(mediaId: string, token: string): boolean {
+  const [expires, signature] = token.split('.');
+  if (!expires || !signature || Number(expires) < Date.now() / 1000) return false;
+
+  const expected = signMedia(mediaId, Number(expires));
+  if (expected.length !== signature.length) return false;
+
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+}
@@ -0,0 +1,155 @@
+import { Chat, Contact, Draft, DraftStatus, Message, MessageSource, ResponseMode, ToolCall } from '../models';
+
+export interface ListResult<T> {
+  items: T[];
+  totalItems: number;
+}
+
+// Позиция в списке: дата сортировки записи и ее ID, чтобы различать записи с одинаковой датой
+export interface PageCursor {
+  date: Date;
+  id?: string;
+}
+
+// before — записи раньше курсора, ближайшие к нему; after — записи позже курсора
+export interface PageQuery {
+  limit: number;
+  before?: PageCursor;
+  after?: PageCursor;
+  // Только записи, измененные начиная с этого момента
+  updatedSince?: Date;
+}
+
+export interface SearchQuery {
+  terms: string[];
+  source?: MessageSource;
+  chatId?: string;
+  from?: Date;
+  to?: Date;
+  isIncoming?: boolean;
+  responseMode?: ResponseMode;
+  page: number;
+  limit: number;
+}
+
+export interface SearchHit {
+  message: Message;
+  chat: Chat | null;
+  snippet: string;
+}
+
+// Сообщения для удаления; условия объединяются через И
+export interface PurgeQuery {
+  source?: MessageSource;
+  chatId?: string;
+  senderId?: string;
+  // Только сообщения с timestamp раньше этой даты
+  olderThan?: Date;
+  // Оставить обезличенные заглушки вместо удаления сообщений
+  anonymize?: boolean;
+}
+
+export interface PurgeResult {
+  messages: number;
+  media: number;
+}
+
+// Отбор черновиков; условия объединяются через И
+export interface DraftQuery {
+  chatId?: string;
+  source?: MessageSource;
+  status?: DraftStatus;
+}
+
+export interface MediaFile {
+  file: Blob;
+  fileName: string;
+  mimeType: string;
+}
+
+export type MediaVariant = 'original' | 'thumbnail';
+
+// Характеристики файла, которые определяет медиа-конвейер (src/media)
+export interface MediaMetadata {
+  sha256: string;
+  size: number;
+  width?: number;
+  height?: number;
+  // Длительность аудио и видео в секундах
+  duration?: number;
+}
+
+export interface MediaInfo extends Partial<MediaMetadata> {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  hasThumbnail: boolean;
+}
+
+// Хранилище чатов, сообщений и файлов. Реализации: PocketBase и встроенный в Bun SQLite
+export interface StorageBackend {
+  name: string;
+  init(): Promise<void>;
+  isConnected(): boolean;
+  // Число записей, ожидающих отправки в хранилище
+  pendingWrites?(): number;
+  // Отправка ожидающих записей; возвращает число оставшихся
+  replayWrites?(): Promise<number>;
+
+  saveMessage(msg: Message): Promise<Message>;
+  updateMessage(id: string, data: Partial<Message>): Promise<Message>;
+  getMessage(id: string): Promise<Message | null>;
+  findMessageByPlatformId(platformMessageId: string, chatId?: string): Promise<Message | null>;
+  getLastIncomingMessage(chatId: string): Promise<Message | null>;
+  // Исходящие сообщения в статусе queued, не обновлявшиеся с staleBefore, по возрастанию timestamp
+  getQueuedMessages(staleBefore: Date): Promise<Message[]>;
+  // Захват зависшего сообщения для повторной отправки: из нескольких экземпляров успешен только один,
+  // а обновленное при захвате сообщение перестает считаться зависшим. staleBefore — когда брошен и сам захват
+  claimOutbound(message: Message, staleBefore: Date): Promise<boolean>;
+  // Сообщения по возрастанию timestamp
+  getMessages(chatId: string, query: PageQuery): Promise<ListResult<Message>>;
+  // Поиск по content и transcription: сообщение должно содержать все слова запроса, новые сначала
+  searchMessages(query: SearchQuery): Promise<ListResult<SearchHit>>;
+  // Удаление (или обезличивание) сообщений вместе с их файлами, вызовами инструментов и черновиками
+  purgeMessages(query: PurgeQuery): Promise<PurgeResult>;
+
+  saveChat(chat: Chat): Promise<Chat>;
+  updateResponseMode(chatId: string, mode: ResponseMode): Promise<void>;
+  updateChatChannel(chatId: string, channel: string): Promise<void>;
+  findOrCreateChat(id: string, source?: MessageSource, name?: string): Promise<Chat | null>;
+  // Чаты по убыванию updated
+  getChats(source: string | undefined, query: PageQuery): Promise<ListResult<Chat>>;
+  getChatById(chatId: string): Promise<Chat | null>;
+  // source уточняет поиск, если тот же ID встречается в разных каналах
+  findChatByPlatformId(platformChatId: string, source?: MessageSource): Promise<Chat | null>;
+  // Удаление чата со всеми сообщениями и файлами
+  deleteChat(chatId: string): Promise<PurgeResult>;
+  getChatsByContact(contactId: string): Promise<Chat[]>;
+
+  saveContact(contact: Contact): Promise<Contact>;
+  getContact(contactId: string): Promise<Contact | null>;
+  // Контакты по убыванию updated
+  getContacts(query: PageQuery): Promise<ListResult<Contact>>;
+  deleteContact(contactId: string): Promise<void>;
+
+  saveToolCall(call: ToolCall): Promise<ToolCall>;
+  // Вызовы инструментов в чате по возрастанию timestamp
+  getToolCalls(chatId: string, query: PageQuery): Promise<ListResult<ToolCall>>;
+
+  saveDraft(draft: Draft): Promise<Draft>;
+  updateDraft(id: string, data: Partial<Draft>): Promise<Draft>;
+  getDraft(id: string): Promise<Draft | null>;
+  // Черновики по возрастанию timestamp
+  getDrafts(query: DraftQuery, page: PageQuery): Promise<ListResult<Draft>>;
+
+  saveMediaFile(fileData: Blob, filename: string, contentType: string, platform: string, metadata?: MediaMetadata, thumbnail?: Blob): Promise<string>;
+  // ID уже сохраненного файла с таким же содержимым
+  findMediaByHash(sha256: string): Promise<string | null>;
+  getMediaInfo(mediaId: string): Promise<MediaInfo | null>;
+  // null, если файла нет или у него нет запрошенного варианта (превью)
+  getMediaFile(mediaId: string, variant?: MediaVariant): Promise<MediaFile | null>;
+  // Абсолютная ссылка на файл с временным токеном доступа
+  getMediaUrl(mediaId: string, variant?: MediaVariant): Promise<string | null>;
+  // Проверка токена для файлов, которые раздает сам сервис (/api/files/)
+  verifyMediaToken?(mediaId: string, token: string): boolean;
+}
@@ -0,0 +1,115 @@
+import { Database } from 'bun:sqlite';
+import { randomUUID } from 'crypto';
+import { mkdirSync } from 'fs';
+import { unlink } from 'fs/promises';
+import { dirname, join } from 'path';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const WRITE_QUEUE_PATH = process.env.WRITE_QUEUE_PATH || './data/write-queue.db';
+const WRITE_QUEUE_FILES_DIR = join(dirname(WRITE_QUEUE_PATH), 'write-queue-files');
+
+export interface QueuedWrite {
+  seq?: number;
+  op: 'create' | 'update';
+  collection: string;
+  recordId: string;
+  data: Record<string, any>;
+  // Файл для записи в media хранится на диске до отправки
+  filePath?: string;
+  fileName?: string;
+  mimeType?: string;
+}
+
+let db: Database | undefined;
+
+// Журнал записей, которые не удалось отправить в хранилище; переживает перезапуск сервиса
+export function openWriteQueue() {
+  if (db) return;
+
+  mkdirSync(WRITE_QUEUE_FILES_DIR, { recursive: true });
+  db = new Database(WRITE_QUEUE_PATH, { create: true });
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec(`CREATE TABLE IF NOT EXISTS writes (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    op TEXT NOT NULL,
+    collection TEXT NOT NULL,
+    recordId TEXT NOT NULL,
+    data TEXT NOT NULL,
+    filePath TEXT,
+    fileName TEXT,
+    mimeType TEXT
+  )`);
+}
+
+function getDb(): Database {
+  if (!db) {
+    throw new Error('Write queue is not opened');
+  }
+  return db;
+}
+
+export function queueDepth(): number {
+  if (!db) return 0;
+  const { depth } = db.query('SELECT COUNT(*) AS depth FROM writes').get() as { depth: number };
+  return depth;
+}
+
+export function enqueueWrite(write: QueuedWrite) {
+  getDb()
+    .query('INSERT INTO writes (op, collection, recordId, data, filePath, fileName, mimeType) VALUES (?, ?, ?, ?, ?, ?, ?)')
+    .run(write.op, write.collection, write.recordId, JSON.stringify(write.data), write.filePath ?? null, write.fileName ?? null, write.mimeType ?? null);
+}
+
+export function pendingWrites(limit = -1): QueuedWrite[] {
+  if (!db) return [];
+  return (db.query('SELECT * FROM writes ORDER BY seq LIMIT ?').all(limit) as any[]).map(row => ({
+    seq: row.seq,
+    op: row.op,
+    collection: row.collection,
+    recordId: row.recordId,
+    data: JSON.parse(row.data),
+    ...(row.filePath && { filePath: row.filePath, fileName: row.fileName, mimeType: row.mimeType })
+  }));
+}
+
+export async function completeWrite(write: QueuedWrite) {
+  getDb().query('DELETE FROM writes WHERE seq = ?').run(write.seq!);
+  if (write.filePath) {
+    await unlink(write.filePath).catch(() => { });
+  }
+}
+
+export async function storeQueuedFile(fileData: Blob): Promise<string> {
+  const filePath = join(WRITE_QUEUE_FILES_DIR, randomUUID());
+  await Bun.write(filePath, fileData);
+  return filePath;
+}
+
+// Запись оказалась дублем уже существующей (например, чат создан до сбоя):
+// последующие записи начинают ссылаться на существующий ID
+export function remapRecordId(oldId: string, newId: string) {
+  for (const write of pendingWrites()) {
+    const data = Object.fromEntries(
+      Object.entries(write.data).map(([key, value]) => [key, value === oldId ? newId : value])
+    );
+    getDb()
+      .query('UPDATE writes SET recordId = ?, data = ? WHERE seq = ?')
+      .run(write.recordId === oldId ? newId : write.recordId, JSON.stringify(data), write.seq!);
+  }
+}
+
+// Записи отправляются строго по порядку; apply возвращает false, если хранилище все еще недоступно
+export async function replayWrites(apply: (write: QueuedWrite) => Promise<boolean>): Promise<number> {
+  let replayed = 0;
+
+  // Очередь перечитывается на каждом шаге, потому что remapRecordId может изменить следующие записи
+  for (let [write] = pendingWrites(1); write; [write] = pendingWrites(1)) {
+    if (!(await apply(write))) break;
+    await completeWrite(write);
+    replayed++;
+  }
+
+  return replayed;
+}
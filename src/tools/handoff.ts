@@ -0,0 +1,25 @@
+import { requestHandoff } from '../responder/handoff';
+import { ToolDefinition } from './types';
+
+interface HandoffArgs {
+  reason?: string;
+}
+
+// Сам чат передается оператору после ответа модели (src/responder/handoff.ts): текст ответа
+// заменяется сообщением о передаче, автоответ отключается
+export const requestHandoffTool: ToolDefinition<HandoffArgs> = {
+  name: 'request_handoff',
+  description: 'Передать чат живому оператору. Вызывайте, если не можете ответить на вопрос клиента, '
+    + 'вопрос требует решения сотрудника (возврат, жалоба, нестандартный заказ) или клиент просит человека.',
+  parameters: {
+    type: 'object',
+    properties: {
+      reason: { type: 'string', description: 'Почему нужен оператор, кратко' }
+    },
+    additionalProperties: false
+  },
+  execute: async ({ reason }, { chat }) => {
+    requestHandoff(chat.id!, reason || '');
+    return { handedOff: true };
+  }
+};
@@ -0,0 +1,107 @@
+import dotenv from 'dotenv';
+import { ToolCall } from '../models';
+import { saveToolCall } from '../storage';
+import { publish } from '../api/realtime';
+import { FunctionToolSpec, ToolContext, ToolDefinition, ToolInvocation } from './types';
+
+export * from './types';
+
+dotenv.config();
+
+const TOOL_TIMEOUT_MS = parseInt(process.env.TOOL_TIMEOUT_MS || '10000');
+// Результат длиннее обрезается, чтобы не переполнить контекст модели
+const TOOL_OUTPUT_LIMIT = 8000;
+
+class ToolTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`Tool ${name} timed out after ${timeoutMs} ms`);
+    this.name = 'ToolTimeoutError';
+  }
+}
+
+const tools = new Map<string, ToolDefinition<any>>();
+
+export function registerTool<Args>(tool: ToolDefinition<Args>) {
+  if (tools.has(tool.name)) {
+    throw new Error(`Tool ${tool.name} is already registered`);
+  }
+  tools.set(tool.name, tool);
+}
+
+export function hasTool(name: string): boolean {
+  return tools.has(name);
+}
+
+// Описания инструментов в формате OpenAI (Chat Completions и Assistants)
+export function getToolSpecs(): FunctionToolSpec[] {
+  return [...tools.values()].map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+  }));
+}
+
+function withTimeout<T>(promise: Promise<T>, name: string, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ToolTimeoutError(name, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+function stringifyOutput(result: unknown): string {
+  const text = typeof result === 'string' ? result : JSON.stringify(result ?? null);
+  return text.length > TOOL_OUTPUT_LIMIT ? `${text.slice(0, TOOL_OUTPUT_LIMIT)}…` : text;
+}
+
+// Выполняет вызов и возвращает результат для модели. Ошибки не пробрасываются: модель получает
+// их описание и может ответить клиенту. Каждый вызов записывается в журнал чата
+export async function executeTool(invocation: ToolInvocation, context: ToolContext): Promise<string> {
+  const started = Date.now();
+  const tool = tools.get(invocation.name);
+  let args: Record<string, unknown> = {};
+  let call: Pick<ToolCall, 'output' | 'status' | 'error'>;
+
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool: ${invocation.name}`);
+    }
+    args = invocation.arguments ? JSON.parse(invocation.arguments) : {};
+    const result = await withTimeout(tool.execute(args, context), tool.name, tool.timeoutMs ?? TOOL_TIMEOUT_MS);
+    call = { output: stringifyOutput(result), status: 'success' };
+  } catch (error: any) {
+    const message = error?.message || String(error);
+    console.error(`Tool ${invocation.name} failed for chat ${context.chat.id}: ${message}`);
+    call = {
+      output: JSON.stringify({ error: message }),
+      status: error instanceof ToolTimeoutError ? 'timeout' : 'error',
+      error: message
+    };
+  }
+
+  await logToolCall({
+    chatId: context.chat.id!,
+    ...(context.message.id && { messageId: context.message.id }),
+    tool: invocation.name,
+    arguments: args,
+    ...call,
+    durationMs: Date.now() - started,
+    timestamp: new Date(started)
+  });
+  return call.output;
+}
+
+// Ошибка записи журнала не должна прерывать ответ клиенту
+async function logToolCall(call: ToolCall) {
+  try {
+    const saved = await saveToolCall(call);
+    publish("event", {
+      type: "tool_call",
+      chatId: saved.chatId,
+      toolCallId: saved.id,
+      tool: saved.tool,
+      status: saved.status
+    });
+  } catch (error) {
+    console.error(`Failed to log tool call ${call.tool} for chat ${call.chatId}:`, error);
+  }
+}
@@ -0,0 +1,44 @@
+import { saveContact } from '../storage';
+import { syncContactProfile } from '../utils/contacts';
+import { ToolDefinition } from './types';
+
+interface LeadArgs {
+  name?: string;
+  phone?: string;
+  email?: string;
+  comment?: string;
+}
+
+// Заявка клиента сохраняется в карточку контакта: пустые поля заполняются, а сама заявка
+// дописывается в заметки, чтобы оператор видел все, что клиент сообщил
+export const createLeadTool: ToolDefinition<LeadArgs> = {
+  name: 'create_lead',
+  description: 'Создать заявку: сохранить контактные данные клиента и суть обращения для менеджера. '
+    + 'Вызывайте, когда клиент оставил телефон или email и хочет, чтобы с ним связались.',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Имя клиента' },
+      phone: { type: 'string', description: 'Телефон клиента' },
+      email: { type: 'string', description: 'Email клиента' },
+      comment: { type: 'string', description: 'Что нужно клиенту' }
+    },
+    additionalProperties: false
+  },
+  execute: async (args, { chat }) => {
+    if (!args.phone && !args.email) {
+      return { created: false, reason: 'Нужен телефон или email клиента' };
+    }
+
+    const contact = await syncContactProfile(chat, { name: args.name, phone: args.phone, email: args.email });
+    if (!contact) {
+      throw new Error(`Chat ${chat.id} has no contact card`);
+    }
+
+    const details = [args.name, args.phone, args.email].filter(Boolean).join(', ');
+    const lead = `Заявка ${new Date().toISOString().slice(0, 10)} (${details})${args.comment ? `: ${args.comment}` : ''}`;
+    await saveContact({ ...contact, notes: [contact.notes, lead].filter(Boolean).join('\n\n') });
+
+    return { created: true, contactId: contact.id };
+  }
+};
@@ -0,0 +1,29 @@
+import { Chat, Message } from '../models';
+
+export interface ToolContext {
+  chat: Chat;
+  // Сообщение клиента, на которое отвечает модель
+  message: Message;
+}
+
+// Действие, которое модель может выполнить во время ответа. Args — аргументы, описанные в parameters
+export interface ToolDefinition<Args = Record<string, any>> {
+  name: string;
+  // Описание для модели: когда вызывать инструмент и что он возвращает
+  description: string;
+  // JSON Schema аргументов
+  parameters: Record<string, unknown>;
+  timeoutMs?: number;
+  execute(args: Args, context: ToolContext): Promise<unknown>;
+}
+
+// Вызов, запрошенный моделью: аргументы приходят JSON-строкой
+export interface ToolInvocation {
+  name: string;
+  arguments: string;
+}
+
+export interface FunctionToolSpec {
+  type: 'function';
+  function: { name: string, description: string, parameters: Record<string, unknown> };
+}
@@ -0,0 +1,66 @@
+import { Chat, Contact } from '../models';
+import { getChatsByContact, getContact, saveChat, saveContact, deleteContact } from '../storage';
+
+// Данные профиля, которые канал знает об отправителе
+export type ContactProfile = Partial<Pick<Contact, 'name' | 'phone' | 'email' | 'username'>>;
+
+const PROFILE_FIELDS = ['name', 'phone', 'email', 'username'] as const;
+
+// Чат без контакта получает новый контакт из профиля. У существующего контакта заполняются только пустые поля,
+// чтобы не затереть правки оператора
+export async function syncContactProfile(chat: Chat, profile: ContactProfile): Promise<Contact | null> {
+  if (!chat.id) return null;
+
+  const contact = chat.contactId ? await getContact(chat.contactId) : null;
+  if (!contact) {
+    const created = await saveContact({ ...withoutEmpty(profile), name: profile.name || chat.name });
+    chat.contactId = created.id;
+    await saveChat(chat);
+    return created;
+  }
+
+  const missing = PROFILE_FIELDS.filter(field => !contact[field] && profile[field]);
+  if (!missing.length) {
+    return contact;
+  }
+  return await saveContact({ ...contact, ...Object.fromEntries(missing.map(field => [field, profile[field]])) });
+}
+
+function withoutEmpty(profile: ContactProfile): ContactProfile {
+  return Object.fromEntries(Object.entries(profile).filter(([, value]) => value)) as ContactProfile;
+}
+
+function mergeNotes(target?: string, source?: string): string | undefined {
+  if (!target || !source || target === source) {
+    return target || source;
+  }
+  return `${target}\n\n${source}`;
+}
+
+export interface MergeResult {
+  contact: Contact;
+  chats: Chat[];
+}
+
+// Контакт source сливается в target: поля target в приоритете, пустые берутся из source,
+// заметки объединяются, чаты source переходят к target, а сам source удаляется
+export async function mergeContacts(target: Contact, source: Contact): Promise<MergeResult> {
+  const merged: Contact = {
+    ...target,
+    name: target.name || source.name,
+    phone: target.phone || source.phone,
+    email: target.email || source.email,
+    username: target.username || source.username,
+    notes: mergeNotes(target.notes, source.notes),
+    attributes: { ...source.attributes, ...target.attributes }
+  };
+
+  for (const chat of await getChatsByContact(source.id!)) {
+    await saveChat({ ...chat, contactId: target.id });
+  }
+
+  const contact = await saveContact(merged);
+  await deleteContact(source.id!);
+
+  return { contact, chats: await getChatsByContact(target.id!) };
+}
@@ -0,0 +1,125 @@
+import { Draft, MessageSource } from '../models';
+import { DraftQuery, getDrafts, PageCursor } from '../storage';
+
+const STATS_PAGE_SIZE = 500;
+
+export interface DraftStats {
+  total: number;
+  pending: number;
+  approved: number;
+  // Одобрены без правок
+  unchanged: number;
+  discarded: number;
+  // Заменены более новым черновиком, пока ждали решения
+  superseded: number;
+  // Доля одобренных среди решенных (одобренные, отклоненные и замененные)
+  acceptanceRate: number | null;
+  // Доля одобренных без правок среди одобренных
+  unchangedRate: number | null;
+  // Средняя доля измененных символов в одобренных: editDistance к длине более длинного текста
+  averageEditRatio: number | null;
+}
+
+export interface DraftStatsGroup {
+  key: string;
+  stats: DraftStats;
+}
+
+export type DraftStatsGrouping = 'chat' | 'source';
+
+export interface DraftStatsQuery {
+  chatId?: string;
+  source?: MessageSource;
+  from?: Date;
+  to?: Date;
+  groupBy?: DraftStatsGrouping;
+}
+
+// Расстояние Левенштейна по символам: сколько вставок, удалений и замен нужно, чтобы получить b из a
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole ? Number((part / whole).toFixed(4)) : null;
+}
+
+export function summarizeDrafts(drafts: Draft[]): DraftStats {
+  const count = (status: Draft['status']) => drafts.filter(draft => draft.status === status).length;
+  const approved = drafts.filter(draft => draft.status === 'approved');
+  const unchanged = approved.filter(draft => !draft.editDistance).length;
+  const discarded = count('discarded');
+  const superseded = count('superseded');
+
+  const editRatios = approved.map(draft =>
+    (draft.editDistance || 0) / Math.max(draft.suggestedContent.length, draft.content.length, 1));
+  const averageEditRatio = editRatios.length
+    ? Number((editRatios.reduce((sum, value) => sum + value, 0) / editRatios.length).toFixed(4))
+    : null;
+
+  return {
+    total: drafts.length,
+    pending: count('pending'),
+    approved: approved.length,
+    unchanged,
+    discarded,
+    superseded,
+    acceptanceRate: ratio(approved.length, approved.length + discarded + superseded),
+    unchangedRate: ratio(unchanged, approved.length),
+    averageEditRatio
+  };
+}
+
+// Все черновики за период, страницами по возрастанию timestamp
+async function collectDrafts(query: DraftQuery, from?: Date, to?: Date): Promise<Draft[]> {
+  const drafts: Draft[] = [];
+  // after строгий, поэтому граница from сдвигается на миллисекунду, чтобы попасть в выборку
+  let after: PageCursor | undefined = from ? { date: new Date(from.getTime() - 1) } : undefined;
+  const before: PageCursor | undefined = to ? { date: new Date(to.getTime() + 1) } : undefined;
+
+  for (; ;) {
+    const page = await getDrafts(query, { limit: STATS_PAGE_SIZE, after, before });
+    drafts.push(...page.items);
+    if (page.totalItems <= page.items.length) {
+      return drafts;
+    }
+    const last = page.items[page.items.length - 1];
+    after = { date: last.timestamp, id: last.id };
+  }
+}
+
+// Насколько операторы принимают черновики: по этим цифрам видно, можно ли перевести чат или канал в auto
+export async function getDraftStats(query: DraftStatsQuery): Promise<{ stats: DraftStats, groups?: DraftStatsGroup[] }> {
+  const drafts = await collectDrafts({ chatId: query.chatId, source: query.source }, query.from, query.to);
+  const stats = summarizeDrafts(drafts);
+  if (!query.groupBy) {
+    return { stats };
+  }
+
+  const grouped = new Map<string, Draft[]>();
+  for (const draft of drafts) {
+    const key = query.groupBy === 'chat' ? draft.chatId : draft.source;
+    const items = grouped.get(key);
+    if (items) {
+      items.push(draft);
+    } else {
+      grouped.set(key, [draft]);
+    }
+  }
+
+  const groups = [...grouped].map(([key, items]) => ({ key, stats: summarizeDrafts(items) }));
+  return { stats, groups };
+}
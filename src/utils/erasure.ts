@@ -0,0 +1,71 @@
+import { Chat, MessageSource } from '../models';
+import { deleteChat, deleteContact, findChatByPlatformId, getChatsByContact, purgeMessages } from '../storage';
+import { deleteThread } from '../responder';
+
+export interface ErasedChat {
+  id: string;
+  name: string;
+  messages: number;
+  media: number;
+  openAIThread: 'deleted' | 'not_found' | 'none';
+}
+
+export interface ErasureReport {
+  source: MessageSource;
+  userId: string;
+  chats: ErasedChat[];
+  // Сообщения контакта в групповых чатах; сами группы остаются
+  groupMessages: number;
+  messages: number;
+  media: number;
+  contactDeleted: boolean;
+}
+
+// Удаление всех данных контакта: его чатов во всех каналах (привязанных через contactId, в том числе после слияния),
+// их сообщений и файлов, тредов OpenAI, карточки контакта и сообщений в группах.
+// Ошибка на любом шаге прерывает удаление, повторный вызов продолжит с того же места
+export async function eraseContact(source: MessageSource, userId: string): Promise<ErasureReport> {
+  const report: ErasureReport = { source, userId, chats: [], groupMessages: 0, messages: 0, media: 0, contactDeleted: false };
+
+  const chat = await findChatByPlatformId(userId, source);
+  // Чат, найденный по запросу, удаляется последним: пока он есть, повторный вызов найдет по нему контакт
+  const others = chat?.contactId
+    ? (await getChatsByContact(chat.contactId)).filter(linked => linked.id !== chat.id)
+    : [];
+  // Отправители в групповых чатах: ID из запроса и ID личных чатов контакта в других каналах
+  const senders = new Map<string, { source: MessageSource, senderId: string }>([[`${source}:${userId}`, { source, senderId: userId }]]);
+
+  for (const linked of others) {
+    await eraseChat(linked, report);
+    senders.set(`${linked.source}:${linked.platformChatId}`, { source: linked.source, senderId: linked.platformChatId! });
+  }
+
+  if (chat?.contactId) {
+    await deleteContact(chat.contactId);
+    report.contactDeleted = true;
+  }
+  if (chat?.id) {
+    await eraseChat(chat, report);
+  }
+
+  for (const sender of senders.values()) {
+    const group = await purgeMessages(sender);
+    report.groupMessages += group.messages;
+    report.messages += group.messages;
+    report.media += group.media;
+  }
+
+  return report;
+}
+
+async function eraseChat(chat: Chat, report: ErasureReport): Promise<void> {
+  // Тред удаляется первым: после удаления чата его ID уже негде будет взять
+  const openAIThread = !chat.openAIThreadId
+    ? 'none'
+    : await deleteThread(chat.openAIThreadId) ? 'deleted' : 'not_found';
+  const result = await deleteChat(chat.id!);
+
+  report.chats.push({ id: chat.id!, name: chat.name, ...result, openAIThread });
+  report.messages += result.messages;
+  report.media += result.media;
+}
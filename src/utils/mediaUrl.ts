@@ -0,0 +1,18 @@
+import { getMediaUrl } from '../storage';
+
+const PUBLIC_URL = process.env.PUBLIC_URL;
+
+// Подписанная ссылка на файл для каналов, которые забирают вложения по URL.
+// Если задан PUBLIC_URL, ссылка строится от него (файлы проксируются через /api/files/)
+export async function getPublicMediaUrl(mediaFileId: string): Promise<string | null> {
+  const mediaUrl = await getMediaUrl(mediaFileId);
+  if (!mediaUrl) {
+    return null;
+  }
+
+  const url = new URL(mediaUrl);
+
+  return PUBLIC_URL
+    ? `${PUBLIC_URL.replace(/\/$/, '')}${url.pathname}${url.search}`
+    : url.toString();
+}
@@ -0,0 +1,25 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const SIGNATURE_PATTERN = /^sha256=[0-9a-f]{64}$/;
+
+// Проверка подписи X-Hub-Signature-256 для вебхуков Meta (WhatsApp, Instagram).
+// Без секрета приложения проверить подпись нельзя, поэтому запрос отклоняется
+export function verifyMetaSignature(rawBody: string, signatureHeader: string | undefined, appSecret: string | undefined): boolean {
+  if (!appSecret || !signatureHeader || !SIGNATURE_PATTERN.test(signatureHeader)) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', appSecret).update(rawBody, 'utf8').digest();
+  const received = Buffer.from(signatureHeader.slice('sha256='.length), 'hex');
+
+  return timingSafeEqual(expected, received);
+}
+
+// Тело вебхука; null — не JSON
+export function parseWebhookBody(rawBody: string): any | null {
+  try {
+    return JSON.parse(rawBody);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,30 @@
+import { MessageType } from '../models';
+
+export function messageTypeForMime(mimeType: string): MessageType {
+  if (mimeType.startsWith('image/')) return "image";
+  if (mimeType.includes('ogg') || mimeType.includes('opus')) return "voice";
+  if (mimeType.startsWith('audio/')) return "audio";
+  if (mimeType.startsWith('video/')) return "video";
+  return "document";
+}
+
+// Типы, у которых подтип не совпадает с привычным расширением файла
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/svg+xml': 'svg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/x-m4a': 'm4a',
+  'video/quicktime': 'mov',
+  'video/x-msvideo': 'avi',
+  'video/x-matroska': 'mkv',
+  'video/3gpp': '3gp',
+  'application/x-tgsticker': 'tgs',
+  'application/gzip': 'gz',
+  'text/plain': 'txt'
+};
+
+export function extensionForMime(mimeType: string): string {
+  const type = mimeType.split(';')[0].trim().toLowerCase();
+  return EXTENSIONS[type] || type.split('/')[1] || 'bin';
+}
@@ -0,0 +1,26 @@
+// Простой ограничитель запросов с фиксированным окном, хранится в памяти процесса
+export function createRateLimiter(limit: number, windowMs: number) {
+  const hits = new Map<string, { count: number, resetAt: number }>();
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of hits.entries()) {
+      if (entry.resetAt <= now) {
+        hits.delete(key);
+      }
+    }
+  }, windowMs);
+
+  return function isAllowed(key: string): boolean {
+    const now = Date.now();
+    const entry = hits.get(key);
+
+    if (!entry || entry.resetAt <= now) {
+      hits.set(key, { count: 1, resetAt: now + windowMs });
+      return true;
+    }
+
+    entry.count++;
+    return entry.count <= limit;
+  };
+}
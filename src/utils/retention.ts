@@ -0,0 +1,74 @@
+import dotenv from 'dotenv';
+import { MessageSource } from '../models';
+import { purgeMessages } from '../storage';
+
+dotenv.config();
+
+const SOURCES: MessageSource[] = ['telegram', 'whatsapp', 'instagram', 'widget'];
+const RETENTION_ANONYMIZE = process.env.RETENTION_ANONYMIZE === 'true';
+const RETENTION_INTERVAL_MS = parseFloat(process.env.RETENTION_INTERVAL_HOURS || '24') * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let timer: ReturnType<typeof setInterval> | undefined;
+let running = false;
+
+// RETENTION_DAYS=telegram:90,whatsapp:180,*:365 — срок хранения в днях по каналам, * — для остальных
+export function parseRetentionDays(value: string): Map<MessageSource, number> {
+  const rules = new Map<string, number>();
+  for (const rule of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [source, days] = rule.split(':').map(part => part.trim());
+    const parsed = parseInt(days);
+    if (!source || !(parsed > 0)) {
+      throw new Error(`Invalid RETENTION_DAYS rule: ${rule}`);
+    }
+    rules.set(source, parsed);
+  }
+
+  const policy = new Map<MessageSource, number>();
+  for (const source of SOURCES) {
+    const days = rules.get(source) ?? rules.get('*');
+    if (days) {
+      policy.set(source, days);
+    }
+  }
+  return policy;
+}
+
+export async function applyRetention(policy: Map<MessageSource, number>) {
+  if (running) return;
+
+  running = true;
+  try {
+    for (const [source, days] of policy) {
+      const olderThan = new Date(Date.now() - days * DAY_MS);
+      try {
+        const result = await purgeMessages({ source, olderThan, anonymize: RETENTION_ANONYMIZE });
+        if (result.messages || result.media) {
+          console.log(`Retention: ${RETENTION_ANONYMIZE ? 'Anonymized' : 'Deleted'} ${result.messages} ${source} messages and ${result.media} media older than ${days} days`);
+        }
+      } catch (error) {
+        console.error(`Retention: Failed to purge ${source} messages:`, error);
+      }
+    }
+  } finally {
+    running = false;
+  }
+}
+
+// Очистка запускается при старте и затем раз в RETENTION_INTERVAL_HOURS; без RETENTION_DAYS данные хранятся бессрочно
+export function startRetention() {
+  const policy = parseRetentionDays(process.env.RETENTION_DAYS || '');
+  if (!policy.size) return;
+
+  console.log(`Retention: ${[...policy].map(([source, days]) => `${source} ${days}d`).join(', ')}`);
+  applyRetention(policy);
+  timer = setInterval(() => applyRetention(policy), RETENTION_INTERVAL_MS);
+  timer.unref?.();
+}
+
+export function stopRetention() {
+  if (timer) {
+    clearInterval(timer);
+    timer = undefined;
+  }
+}
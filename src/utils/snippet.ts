@@ -0,0 +1,46 @@
+const SNIPPET_RADIUS = 80;
+
+// Слова запроса без повторов; поиск идет по всем словам сразу
+export function searchTerms(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[\s"'*()]+/)
+    .filter(term => term.length > 0);
+  return [...new Set(terms)];
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Фрагмент вокруг первого совпадения в первом подходящем тексте (например, content, затем transcription);
+// найденные слова обернуты в <mark>, остальной текст экранирован
+export function buildSnippet(terms: string[], texts: (string | undefined)[]): string {
+  const candidates = texts.filter((text): text is string => Boolean(text));
+  const text = candidates.find(text => terms.some(term => text.toLowerCase().includes(term))) ?? candidates[0];
+  if (!text) return '';
+
+  const lower = text.toLowerCase();
+  const first = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0));
+  const center = Number.isFinite(first) ? first : 0;
+
+  const start = Math.max(0, center - SNIPPET_RADIUS);
+  const end = Math.min(text.length, center + SNIPPET_RADIUS);
+  const fragment = text.slice(start, end);
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+  const highlighted = fragment
+    .split(pattern)
+    .map((part, index) => index % 2 === 1 ? `<mark>${escapeHtml(part)}</mark>` : escapeHtml(part))
+    .join('');
+
+  return `${start > 0 ? '…' : ''}${highlighted}${end < text.length ? '…' : ''}`;
+}
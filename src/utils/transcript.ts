@@ -0,0 +1,246 @@
+import dotenv from 'dotenv';
+import { Chat, Message } from '../models';
+import { getChats, getMediaFile, getMessages, PageCursor } from '../storage';
+import { getPublicMediaUrl } from './mediaUrl';
+import { escapeHtml } from './snippet';
+
+dotenv.config();
+
+const EXPORT_EMBED_MAX_BYTES = parseInt(process.env.EXPORT_EMBED_MAX_BYTES || String(5 * 1024 * 1024));
+const EXPORT_PAGE_SIZE = 500;
+
+export type ExportFormat = 'json' | 'csv' | 'html';
+// link — подписанные ссылки на файлы (действуют ограниченное время), embed — файлы внутри HTML
+export type ExportMediaMode = 'link' | 'embed';
+
+export interface ExportOptions {
+  from?: Date;
+  to?: Date;
+  media: ExportMediaMode;
+}
+
+interface TranscriptMedia {
+  url: string;
+  mimeType?: string;
+  fileName?: string;
+}
+
+interface TranscriptEntry {
+  message: Message;
+  media?: TranscriptMedia;
+}
+
+export interface ChatTranscript {
+  chat: Chat;
+  entries: TranscriptEntry[];
+}
+
+export interface RenderedExport {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+// Все сообщения чата в диапазоне дат, страницами по возрастанию timestamp
+async function collectMessages(chatId: string, from?: Date, to?: Date): Promise<Message[]> {
+  const messages: Message[] = [];
+  // after строгий, поэтому граница from сдвигается на миллисекунду, чтобы попасть в выборку
+  let after: PageCursor | undefined = from ? { date: new Date(from.getTime() - 1) } : undefined;
+  const before: PageCursor | undefined = to ? { date: new Date(to.getTime() + 1) } : undefined;
+
+  for (; ;) {
+    const page = await getMessages(chatId, { limit: EXPORT_PAGE_SIZE, after, before });
+    messages.push(...page.items);
+    if (page.totalItems <= page.items.length) {
+      return messages;
+    }
+    const last = page.items[page.items.length - 1];
+    after = { date: last.timestamp, id: last.id };
+  }
+}
+
+async function resolveMedia(mediaFileId: string, mode: ExportMediaMode): Promise<TranscriptMedia | undefined> {
+  try {
+    if (mode === 'embed') {
+      const media = await getMediaFile(mediaFileId);
+      if (media && media.file.size <= EXPORT_EMBED_MAX_BYTES) {
+        const data = Buffer.from(await media.file.arrayBuffer()).toString('base64');
+        return { url: `data:${media.mimeType};base64,${data}`, mimeType: media.mimeType, fileName: media.fileName };
+      }
+    }
+
+    const url = await getPublicMediaUrl(mediaFileId);
+    return url ? { url } : undefined;
+  } catch (error) {
+    console.error(`Error resolving media ${mediaFileId} for export:`, error);
+    return undefined;
+  }
+}
+
+export async function buildChatTranscript(chat: Chat, options: ExportOptions): Promise<ChatTranscript> {
+  const messages = await collectMessages(chat.id!, options.from, options.to);
+
+  const entries: TranscriptEntry[] = [];
+  for (const message of messages) {
+    const media = message.mediaFileId ? await resolveMedia(message.mediaFileId, options.media) : undefined;
+    entries.push({ message, ...(media && { media }) });
+  }
+
+  return { chat, entries };
+}
+
+// Выгрузка всех чатов (или чатов одного канала), в которых есть сообщения за период
+export async function buildTranscripts(source: string | undefined, options: ExportOptions): Promise<ChatTranscript[]> {
+  const transcripts: ChatTranscript[] = [];
+  let before: PageCursor | undefined;
+
+  for (; ;) {
+    const page = await getChats(source, { limit: EXPORT_PAGE_SIZE, before });
+    for (const chat of page.items) {
+      const transcript = await buildChatTranscript(chat, options);
+      if (transcript.entries.length) {
+        transcripts.push(transcript);
+      }
+    }
+
+    if (page.items.length < EXPORT_PAGE_SIZE) {
+      return transcripts;
+    }
+    const last = page.items[page.items.length - 1];
+    before = { date: last.updated, id: last.id };
+  }
+}
+
+function authorLabel(message: Message): string {
+  if (message.isIncoming) {
+    return message.senderName || 'Клиент';
+  }
+  if (message.responseMode === 'auto') return 'Автоответ';
+  return message.responseMode === 'suggest' ? 'Оператор (черновик автоответчика)' : 'Оператор';
+}
+
+function renderJson(transcripts: ChatTranscript[], options: ExportOptions): string {
+  return JSON.stringify({
+    exportedAt: new Date(),
+    from: options.from,
+    to: options.to,
+    chats: transcripts.map(({ chat, entries }) => ({
+      chat,
+      messages: entries.map(({ message, media }) => ({ ...message, ...(media && { mediaUrl: media.url }) }))
+    }))
+  }, null, 2);
+}
+
+const CSV_COLUMNS = [
+  'chatId', 'chatName', 'source', 'messageId', 'timestamp', 'direction', 'responseMode', 'author', 'senderId',
+  'type', 'content', 'transcription', 'mediaUrl', 'replyToMessageId', 'status', 'editedAt', 'deleted'
+];
+
+function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? '' : value instanceof Date ? value.toISOString() : String(value);
+  // Значения, похожие на формулы, не должны выполняться при открытии в Excel
+  if (/^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderCsv(transcripts: ChatTranscript[]): string {
+  const rows = transcripts.flatMap(({ chat, entries }) => entries.map(({ message, media }) => [
+    chat.id, chat.name, chat.source, message.id, message.timestamp,
+    message.isIncoming ? 'incoming' : 'outgoing', message.responseMode, authorLabel(message), message.senderId,
+    message.type, message.content, message.transcription, media?.url, message.replyToMessageId,
+    message.status, message.editedAt, message.deleted ? 'true' : ''
+  ]));
+
+  // BOM нужен, чтобы Excel распознал кириллицу в UTF-8
+  return '\uFEFF' + [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+function renderMediaHtml(message: Message, media: TranscriptMedia): string {
+  const url = escapeHtml(media.url);
+  const mimeType = media.mimeType || '';
+
+  if (message.type === 'image' || message.type === 'sticker' || mimeType.startsWith('image/')) {
+    return `<a href="${url}" target="_blank"><img src="${url}" alt="Изображение"></a>`;
+  }
+  if (['voice', 'audio'].includes(message.type) || mimeType.startsWith('audio/')) {
+    return `<audio controls src="${url}"></audio>`;
+  }
+  if (['video', 'video_note'].includes(message.type) || mimeType.startsWith('video/')) {
+    return `<video controls src="${url}"></video>`;
+  }
+  const name = escapeHtml(media.fileName || 'Файл');
+  return `<a href="${url}" download="${name}">📎 ${name}</a>`;
+}
+
+function renderMessageHtml({ message, media }: TranscriptEntry): string {
+  const direction = message.isIncoming ? 'incoming' : message.responseMode === 'auto' ? 'auto' : 'manual';
+  const marker = message.isIncoming ? '' : `<span class="marker ${direction}">${message.responseMode === 'suggest' ? 'suggest' : direction}</span>`;
+  const notes = [
+    message.editedAt && `изменено ${formatDate(message.editedAt)}`,
+    message.deleted && 'удалено',
+    message.status === 'failed' && 'не доставлено'
+  ].filter(Boolean).join(', ');
+
+  return `<div class="message ${direction}">
+  <div class="meta"><strong>${escapeHtml(authorLabel(message))}</strong> ${marker} <time>${formatDate(message.timestamp)}</time>${notes ? ` <em>(${notes})</em>` : ''}</div>
+  ${message.content ? `<div class="content">${escapeHtml(message.content)}</div>` : ''}
+  ${media ? `<div class="media">${renderMediaHtml(message, media)}</div>` : ''}
+  ${message.transcription ? `<div class="transcription">Расшифровка: ${escapeHtml(message.transcription)}</div>` : ''}
+</div>`;
+}
+
+function renderHtml(transcripts: ChatTranscript[], options: ExportOptions): string {
+  const period = options.from || options.to
+    ? `${options.from ? formatDate(options.from) : '…'} — ${options.to ? formatDate(options.to) : '…'}`
+    : 'вся история';
+
+  const chats = transcripts.map(({ chat, entries }) => `<section>
+<h2>${escapeHtml(chat.name)} <small>${escapeHtml(chat.source)} · ${escapeHtml(chat.platformChatId || '')}</small></h2>
+${entries.map(renderMessageHtml).join('\n')}
+</section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="ru">
+<head>
+<meta charset="utf-8">
+<title>Переписка: ${escapeHtml(period)}</title>
+<style>
+body { font-family: sans-serif; max-width: 820px; margin: 24px auto; color: #222; }
+h2 small { font-weight: normal; color: #777; font-size: 14px; }
+.message { margin: 8px 0; padding: 8px 12px; border-radius: 8px; white-space: pre-wrap; }
+.message.incoming { background: #f1f1f1; margin-right: 80px; }
+.message.auto { background: #e6f0ff; margin-left: 80px; }
+.message.manual { background: #e7f7e7; margin-left: 80px; }
+.meta { font-size: 12px; color: #555; margin-bottom: 4px; white-space: normal; }
+.marker { padding: 1px 6px; border-radius: 4px; color: #fff; font-size: 11px; text-transform: uppercase; }
+.marker.auto { background: #3b6fd8; }
+.marker.manual { background: #3a9a3a; }
+.transcription { margin-top: 6px; font-style: italic; color: #444; }
+img, video { max-width: 100%; max-height: 360px; }
+</style>
+</head>
+<body>
+<h1>Переписка</h1>
+<p>Период: ${escapeHtml(period)}. Выгружено ${formatDate(new Date())}.${options.media === 'link' ? ' Ссылки на файлы действуют ограниченное время.' : ''}</p>
+${chats || '<p>Сообщений нет.</p>'}
+</body>
+</html>
+`;
+}
+
+export function renderTranscripts(transcripts: ChatTranscript[], format: ExportFormat, options: ExportOptions): RenderedExport {
+  switch (format) {
+    case 'csv':
+      return { body: renderCsv(transcripts), contentType: 'text/csv; charset=utf-8', extension: 'csv' };
+    case 'html':
+      return { body: renderHtml(transcripts, options), contentType: 'text/html; charset=utf-8', extension: 'html' };
+    default:
+      return { body: renderJson(transcripts, options), contentType: 'application/json; charset=utf-8', extension: 'json' };
+  }
+}